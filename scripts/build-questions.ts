@@ -0,0 +1,86 @@
+// Builds src/data/questions/content.generated.ts from the Markdown files in content/questions.
+//
+//   npm run build:questions            # regenerate (runs before dev and build)
+//   npm run build:questions -- --check # fail if the generated module is out of date
+//
+// Every file is schema-checked and the banks go through the same validation as
+// `npm run validate:questions`; any problem is reported with its file and the build fails.
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { CategoryContent, Question, QuestionBank } from '../src/data/types';
+import { CATEGORY_FILE, compareQuestionIds, parseCategoryFile, parseQuestionFile } from '../src/lib/question-content';
+import { validateQuestionBanks } from '../src/lib/question-validation';
+
+const root = process.cwd();
+const contentDir = join(root, 'content', 'questions');
+const outputFile = join(root, 'src', 'data', 'questions', 'content.generated.ts');
+const checkOnly = process.argv.includes('--check');
+
+const errors: string[] = [];
+const banks: { category: CategoryContent; questions: Question[] }[] = [];
+
+const read = <T>(file: string, parseFile: (source: string) => T): T | null => {
+  try {
+    return parseFile(readFileSync(file, 'utf8'));
+  } catch (error) {
+    errors.push(`${relative(root, file)}: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+};
+
+for (const entry of readdirSync(contentDir, { withFileTypes: true })) {
+  if (!entry.isDirectory()) continue;
+  const dir = join(contentDir, entry.name);
+
+  if (!existsSync(join(dir, CATEGORY_FILE))) {
+    errors.push(`${relative(root, dir)}: missing ${CATEGORY_FILE}`);
+    continue;
+  }
+  const category = read(join(dir, CATEGORY_FILE), source => parseCategoryFile(entry.name, source));
+
+  const questions = readdirSync(dir)
+    .filter(file => file.endsWith('.md') && file !== CATEGORY_FILE)
+    .map(file => read(join(dir, file), source => parseQuestionFile(file, source)))
+    .filter((q): q is Question => !!q)
+    .sort((a, b) => compareQuestionIds(a.id, b.id));
+
+  if (category) banks.push({ category, questions });
+}
+
+banks.sort((a, b) => a.category.order - b.category.order);
+
+const questionBanks: QuestionBank[] = banks.map(({ category, questions }) => ({
+  categoryId: category.id,
+  dir: `content/questions/${category.id}`,
+  label: category.label,
+  questions,
+}));
+validateQuestionBanks(questionBanks).forEach(issue => {
+  errors.push(`${issue.file}:${issue.questionId} [${issue.rule}] ${issue.message}`);
+});
+
+if (errors.length > 0) {
+  errors.forEach(error => console.error(error));
+  console.error(`\n${errors.length} problem(s) in content/questions`);
+  process.exit(1);
+}
+
+const output = `// Generated by \`npm run build:questions\` from content/questions. Do not edit by hand.
+import { CategoryContent, Question } from '../types';
+
+export const contentBanks: { category: CategoryContent; questions: Question[] }[] = ${JSON.stringify(banks, null, 2)};
+`;
+
+const questionCount = banks.reduce((sum, bank) => sum + bank.questions.length, 0);
+
+if (checkOnly) {
+  const current = existsSync(outputFile) ? readFileSync(outputFile, 'utf8') : '';
+  if (current !== output) {
+    console.error(`${relative(root, outputFile)} is out of date; run npm run build:questions`);
+    process.exit(1);
+  }
+  console.log(`${relative(root, outputFile)} is up to date (${questionCount} questions)`);
+} else {
+  writeFileSync(outputFile, output);
+  console.log(`Wrote ${questionCount} questions in ${banks.length} categories to ${relative(root, outputFile)}`);
+}
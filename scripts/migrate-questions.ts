@@ -0,0 +1,36 @@
+// One-off conversion of the TypeScript question banks into content/questions Markdown files.
+//
+//   npx tsx scripts/migrate-questions.ts
+//
+// Reads whatever src/data/questions currently exports, so running it again after the
+// migration rewrites the content files from themselves (useful to normalise formatting).
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { categories, questionBanks } from '../src/data/questions';
+import { CATEGORY_FILE, serializeCategory, serializeQuestion } from '../src/lib/question-content';
+
+const contentDir = join(process.cwd(), 'content', 'questions');
+
+questionBanks.forEach((bank, index) => {
+  const category = categories.find(c => c.id === bank.categoryId);
+  if (!category) throw new Error(`No category metadata for ${bank.categoryId}`);
+
+  const dir = join(contentDir, bank.categoryId);
+  mkdirSync(dir, { recursive: true });
+
+  writeFileSync(join(dir, CATEGORY_FILE), serializeCategory({
+    id: category.id,
+    name: category.name,
+    label: bank.label,
+    description: category.description,
+    icon: category.icon,
+    color: category.color,
+    order: index + 1,
+  }));
+
+  bank.questions.forEach(question => {
+    writeFileSync(join(dir, `${question.id}.md`), serializeQuestion(question));
+  });
+
+  console.log(`${bank.categoryId}: ${bank.questions.length} questions`);
+});
@@ -0,0 +1,46 @@
+// Minimal OpenAI-compatible server for exercising the LLM grader locally.
+//
+//   node scripts/mock-llm-server.mjs [port]
+//   GRADER_ENGINE=llm GRADER_LLM_BASE_URL=http://localhost:8787/v1 npm run dev
+//
+// Scores answers by their length relative to the reference answer so responses vary.
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2]) || 8787;
+
+const server = createServer((req, res) => {
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    const { model, messages = [] } = JSON.parse(body || '{}');
+    const prompt = messages.at(-1)?.content ?? '';
+    const reference = prompt.split('Reference answer:\n')[1]?.split('\n\nCandidate answer:')[0] ?? '';
+    const candidate = prompt.split('Candidate answer:\n')[1] ?? '';
+    const score = Math.min(candidate.length / Math.max(reference.length, 1), 1);
+
+    const grade = {
+      score: Math.round(score * 100) / 100,
+      feedback: `Mock grade from ${model}.`,
+      strengths: candidate.length > 0 ? ['Answered the question'] : [],
+      improvements: score < 1 ? ['Add more detail'] : [],
+    };
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: `mock-${Date.now()}`,
+      object: 'chat.completion',
+      model,
+      choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: JSON.stringify(grade) } }],
+    }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock LLM grader listening on http://localhost:${port}/v1`);
+});
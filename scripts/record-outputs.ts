@@ -0,0 +1,110 @@
+// Runs the `codeExample` of every predict-output question in content/questions and records
+// what it logs as the question's `expectedOutput`.
+//
+//   npm run record:outputs            # record outputs and rewrite files whose output changed
+//   npm run record:outputs -- --check # fail if any recorded output is missing or out of date
+//
+// Candidate outputs (`options`) are re-marked so the one matching the recording is correct.
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, join, relative } from 'node:path';
+import { Worker } from 'node:worker_threads';
+import { Question } from '../src/data/types';
+import { CATEGORY_FILE, parseQuestionFile, serializeQuestion } from '../src/lib/question-content';
+import { matchesOutput } from '../src/lib/answer-formats';
+import type { OutputRun } from '../src/lib/playground/console-output';
+
+const root = process.cwd();
+const contentDir = join(root, 'content', 'questions');
+const checkOnly = process.argv.includes('--check');
+
+const RUN_TIMEOUT_MS = 5000;
+const workerFile = join(__dirname, 'record-outputs.worker.ts');
+
+const problems: string[] = [];
+let recorded = 0;
+let changed = 0;
+
+const files = readdirSync(contentDir, { withFileTypes: true })
+  .filter(entry => entry.isDirectory())
+  .flatMap(entry => readdirSync(join(contentDir, entry.name))
+    .filter(file => file.endsWith('.md') && file !== CATEGORY_FILE)
+    .map(file => join(contentDir, entry.name, file)));
+
+// Each example runs on a thread of its own, so one stuck in a synchronous loop can be terminated.
+// Node 20 loads a worker's entry file before `--import` hooks, so the worker registers tsx itself.
+function recordOutput(code: string): Promise<OutputRun> {
+  return new Promise((resolve) => {
+    const worker = new Worker(`require('tsx/cjs/api').register(); require(${JSON.stringify(workerFile)});`, {
+      eval: true,
+      workerData: code,
+    });
+    const finish = (run: OutputRun) => {
+      clearTimeout(timer);
+      void worker.terminate();
+      resolve(run);
+    };
+    const timer = setTimeout(() => finish({ lines: [], error: `did not finish within ${RUN_TIMEOUT_MS / 1000}s` }), RUN_TIMEOUT_MS);
+    worker.once('message', finish);
+    worker.once('error', error => finish({ lines: [], error: error.message }));
+  });
+}
+
+// Sequential, so each example's timers run on their own
+async function recordAll() {
+  for (const file of files) {
+    const path = relative(root, file);
+    let question: Question;
+    try {
+      question = parseQuestionFile(basename(file), readFileSync(file, 'utf8'));
+    } catch (error) {
+      problems.push(`${path}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+    if (question.answerFormat !== 'predict-output') continue;
+
+    if (!question.codeExample?.trim()) {
+      problems.push(`${path}: no \`codeExample\` to run`);
+      continue;
+    }
+
+    const run = await recordOutput(question.codeExample);
+    if (run.error) {
+      problems.push(`${path}: ${run.error}`);
+      continue;
+    }
+    recorded++;
+
+    const updated: Question = {
+      ...question,
+      expectedOutput: run.lines,
+      options: question.options?.map(o => ({ ...o, isCorrect: matchesOutput(o.text, run.lines) })),
+    };
+    if (updated.options && updated.options.filter(o => o.isCorrect).length !== 1) {
+      problems.push(`${path}: expected exactly one option to match the output:\n  ${run.lines.join('\n  ')}`);
+    }
+
+    const output = serializeQuestion(updated);
+    if (output === serializeQuestion(question)) continue;
+
+    changed++;
+    if (checkOnly) {
+      const before = question.expectedOutput ? question.expectedOutput.join('\n  ') : '(not recorded)';
+      problems.push(`${path}: recorded output is out of date\n  was:\n  ${before}\n  now:\n  ${run.lines.join('\n  ')}`);
+    } else {
+      writeFileSync(file, output);
+      console.log(`${path}: recorded ${run.lines.length} line(s)`);
+    }
+  }
+}
+
+recordAll().then(() => {
+  if (problems.length > 0) {
+    problems.forEach(problem => console.error(problem));
+    console.error(`\n${problems.length} problem(s) recording predict-output questions`);
+    process.exit(1);
+  }
+
+  console.log(checkOnly
+    ? `${recorded} predict-output questions match their recorded output`
+    : `Recorded ${recorded} predict-output questions, ${changed} updated`);
+});
@@ -0,0 +1,5 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { runForOutput } from '../src/lib/playground/console-output';
+
+// Runs one code example; the parent terminates this thread if it never answers
+runForOutput(workerData as string).then(run => parentPort?.postMessage(run));
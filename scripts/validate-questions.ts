@@ -0,0 +1,20 @@
+// Checks the question banks for structural problems and exits non-zero if any are found.
+//
+//   npm run validate:questions
+//
+// Issues are printed as `file:id [rule] message` so CI logs point straight at the question.
+import { questionBanks, allQuestions } from '../src/data/questions';
+import { validateQuestionBanks } from '../src/lib/question-validation';
+
+const issues = validateQuestionBanks(questionBanks);
+
+for (const issue of issues) {
+  console.error(`${issue.file}:${issue.questionId} [${issue.rule}] ${issue.message}`);
+}
+
+if (issues.length > 0) {
+  console.error(`\n${issues.length} issue(s) in ${allQuestions.length} questions`);
+  process.exit(1);
+}
+
+console.log(`${allQuestions.length} questions in ${questionBanks.length} banks passed validation`);
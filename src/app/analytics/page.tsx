@@ -0,0 +1,148 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, BarChart3, Clock, TrendingDown } from 'lucide-react';
+import { usePracticeStore } from '@/store/practice-store';
+import { getQuestionById, useCategories } from '@/data/questions';
+import { Difficulty } from '@/data/types';
+import {
+  collectAnswers,
+  getAccuracyBy,
+  getCategoryTrends,
+  getTimeDistribution,
+  getWeakestGroups,
+} from '@/lib/analytics';
+import { difficultyLevels } from '@/lib/adaptive-difficulty';
+import { ScoreBars, TimeHistogram, TrendChart } from '@/components/AnalyticsCharts';
+
+const formatLabel = (key: string) => key.charAt(0).toUpperCase() + key.slice(1).replace('-', ' ');
+
+export default function AnalyticsPage() {
+  const { sessionHistory } = usePracticeStore();
+  const categories = useCategories();
+  const [timeDifficulty, setTimeDifficulty] = useState<Difficulty | 'all'>('all');
+
+  const records = useMemo(() => collectAnswers(sessionHistory, getQuestionById), [sessionHistory]);
+  const trends = useMemo(() => getCategoryTrends(records), [records]);
+  const weakTags = useMemo(() => getWeakestGroups(records, 'tags'), [records]);
+  const weakSubcategories = useMemo(() => getWeakestGroups(records, 'subcategory'), [records]);
+  const byDifficulty = useMemo(() => getAccuracyBy(records, 'difficulty'), [records]);
+  const byType = useMemo(() => getAccuracyBy(records, 'type'), [records]);
+  const timing = useMemo(
+    () => getTimeDistribution(records, timeDifficulty === 'all' ? undefined : timeDifficulty),
+    [records, timeDifficulty]
+  );
+
+  const categoryFor = (label: string) => categories.find(c => c.label === label || c.id === label);
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/" className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-white/5 transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="hidden sm:inline">Dashboard</span>
+          </Link>
+          <h1 className="text-2xl md:text-3xl font-bold">Progress</h1>
+          <span className="text-sm text-muted-foreground">
+            {records.length} graded {records.length === 1 ? 'answer' : 'answers'} across {sessionHistory.length} sessions
+          </span>
+        </div>
+
+        {records.length === 0 ? (
+          <div className="glass rounded-2xl p-8 text-center text-muted-foreground">
+            <BarChart3 className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            Complete a practice session to see your progress here.
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Score Over Time */}
+            <section>
+              <h2 className="text-xl font-bold mb-4">Score over time</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {trends.map((trend) => {
+                  const category = categoryFor(trend.category);
+                  return (
+                    <div key={trend.category} className="glass rounded-xl p-4">
+                      <div className="flex items-center justify-between mb-3">
+                        <h3 className="font-medium line-clamp-1">
+                          {category?.icon} {category?.name ?? trend.category}
+                        </h3>
+                        <span className="text-sm text-muted-foreground">{trend.averageScore}% avg</span>
+                      </div>
+                      <TrendChart points={trend.points} color={category?.color ?? '#6366F1'} />
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+
+            {/* Weak Spots */}
+            <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="glass rounded-xl p-4">
+                <h2 className="flex items-center gap-2 font-semibold mb-4">
+                  <TrendingDown className="w-4 h-4 text-rose-400" />
+                  Weakest tags
+                </h2>
+                {weakTags.length > 0
+                  ? <ScoreBars groups={weakTags} />
+                  : <p className="text-sm text-muted-foreground">Answer a tag at least twice to rank it.</p>}
+              </div>
+              <div className="glass rounded-xl p-4">
+                <h2 className="flex items-center gap-2 font-semibold mb-4">
+                  <TrendingDown className="w-4 h-4 text-rose-400" />
+                  Weakest subcategories
+                </h2>
+                {weakSubcategories.length > 0
+                  ? <ScoreBars groups={weakSubcategories} />
+                  : <p className="text-sm text-muted-foreground">Answer a subcategory at least twice to rank it.</p>}
+              </div>
+            </section>
+
+            {/* Accuracy */}
+            <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="glass rounded-xl p-4">
+                <h2 className="font-semibold mb-4">Accuracy by difficulty</h2>
+                <ScoreBars groups={byDifficulty} formatKey={formatLabel} />
+              </div>
+              <div className="glass rounded-xl p-4">
+                <h2 className="font-semibold mb-4">Accuracy by type</h2>
+                <ScoreBars groups={byType} formatKey={formatLabel} />
+              </div>
+            </section>
+
+            {/* Time */}
+            <section className="glass rounded-xl p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h2 className="flex items-center gap-2 font-semibold">
+                  <Clock className="w-4 h-4 text-primary" />
+                  Time per question vs. estimate
+                </h2>
+                <div className="flex flex-wrap gap-1">
+                  {(['all', ...difficultyLevels] as const).map((level) => (
+                    <button
+                      key={level}
+                      onClick={() => setTimeDifficulty(level)}
+                      className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                        timeDifficulty === level ? 'bg-primary text-white' : 'bg-muted hover:bg-muted/80'
+                      }`}
+                    >
+                      {formatLabel(level)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <TimeHistogram buckets={timing.buckets} />
+              <p className="text-sm text-muted-foreground mt-4">
+                Median answer takes {Math.round(timing.medianRatio * 100)}% of the estimated time;{' '}
+                {Math.round(timing.overEstimate * 100)}% of answers ran over.
+              </p>
+            </section>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Plus, Pencil, Trash2, Save, FilePlus } from 'lucide-react';
+import { useCategories } from '@/data/questions';
+import { Category } from '@/data/types';
+import { CustomCategory, useCustomQuestionStore } from '@/store/custom-question-store';
+import { CategoryCard } from '@/components/CategoryCard';
+
+type CategoryDraft = Omit<CustomCategory, 'id'>;
+
+const iconPresets = ['📚', '🧠', '⚙️', '🧪', '🔒', '🌐', '📦', '🎨', '🚀', '🧩'];
+const colorPresets = ['#6366F1', '#8B5CF6', '#EC4899', '#F43F5E', '#F59E0B', '#10B981', '#06B6D4', '#3B82F6'];
+
+const emptyDraft: CategoryDraft = { name: '', description: '', icon: iconPresets[0], color: colorPresets[0] };
+
+const inputClass = 'w-full py-2 px-3 rounded-lg bg-muted/50 border border-border focus:border-primary outline-none text-sm';
+
+export default function CategoriesPage() {
+  const categories = useCategories();
+  const { createCategory, updateCategory, deleteCategory } = useCustomQuestionStore();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CategoryDraft>(emptyDraft);
+  const [error, setError] = useState('');
+
+  const builtIn = categories.filter(c => !c.isCustom);
+  const custom = categories.filter(c => c.isCustom);
+
+  const startEdit = (category: Category) => {
+    setEditingId(category.id);
+    setDraft({ name: category.name, description: category.description, icon: category.icon, color: category.color });
+    setError('');
+  };
+
+  const reset = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+    setError('');
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      setError('Give the category a name.');
+      return;
+    }
+    // Questions are matched to categories by label or ID, so both must stay unambiguous
+    const key = name.toLowerCase();
+    const taken = categories.some(c =>
+      c.id !== editingId && [c.id, c.name, c.label].some(value => value.toLowerCase() === key));
+    if (taken || key === 'all') {
+      setError(`A category called '${name}' already exists.`);
+      return;
+    }
+
+    const fields = { ...draft, name, description: draft.description.trim(), icon: draft.icon.trim() || iconPresets[0] };
+    if (editingId) {
+      updateCategory(editingId, fields);
+    } else {
+      createCategory(fields);
+    }
+    reset();
+  };
+
+  const preview: Category = {
+    id: editingId ?? 'preview',
+    label: draft.name,
+    ...draft,
+    name: draft.name || 'Category name',
+    questionCount: categories.find(c => c.id === editingId)?.questionCount ?? 0,
+    isCustom: true,
+  };
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/" className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-white/5 transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="hidden sm:inline">Dashboard</span>
+          </Link>
+          <h1 className="text-2xl md:text-3xl font-bold">Categories</h1>
+        </div>
+
+        {/* Form */}
+        <div className="grid md:grid-cols-[1fr_280px] gap-6 mb-8">
+          <div className="glass rounded-xl p-4 space-y-4">
+            <h2 className="font-semibold">{editingId ? 'Edit category' : 'New category'}</h2>
+            <label className="block space-y-1">
+              <span className="block text-sm font-medium">Name</span>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Accessibility"
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="block text-sm font-medium">Description</span>
+              <input
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <div className="space-y-1">
+              <span className="block text-sm font-medium">Icon</span>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  value={draft.icon}
+                  onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+                  maxLength={4}
+                  className={`${inputClass} !w-16 text-center`}
+                />
+                {iconPresets.map((icon) => (
+                  <button
+                    key={icon}
+                    onClick={() => setDraft({ ...draft, icon })}
+                    className={`w-9 h-9 rounded-lg text-lg transition-colors ${
+                      draft.icon === icon ? 'bg-primary/20 ring-1 ring-primary' : 'bg-muted hover:bg-muted/80'
+                    }`}
+                  >
+                    {icon}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <span className="block text-sm font-medium">Colour</span>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="color"
+                  value={draft.color}
+                  onChange={(e) => setDraft({ ...draft, color: e.target.value.toUpperCase() })}
+                  className="w-9 h-9 rounded-lg bg-transparent cursor-pointer"
+                />
+                {colorPresets.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => setDraft({ ...draft, color })}
+                    title={color}
+                    className={`w-7 h-7 rounded-full transition-transform ${draft.color === color ? 'ring-2 ring-white scale-110' : ''}`}
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-rose-400">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <button onClick={reset} className="px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 text-sm transition-colors">
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white text-sm font-medium hover:opacity-90 transition-opacity"
+              >
+                {editingId ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                {editingId ? 'Save' : 'Create'}
+              </button>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="pointer-events-none">
+            <CategoryCard category={preview} index={0} isSelected={false} onClick={() => {}} />
+          </div>
+        </div>
+
+        {/* Custom Categories */}
+        <section className="mb-8">
+          <h2 className="text-lg font-semibold mb-3">Your categories ({custom.length})</h2>
+          {custom.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No custom categories yet. Questions you create or import join a category when their category is set to its name.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {custom.map((category) => (
+                <CategoryRow key={category.id} category={category}>
+                  <Link
+                    href={`/questions/new?category=${encodeURIComponent(category.label)}`}
+                    title="Add a question"
+                    className="p-2 rounded-lg hover:bg-muted transition-colors"
+                  >
+                    <FilePlus className="w-4 h-4" />
+                  </Link>
+                  <button onClick={() => startEdit(category)} title="Edit" className="p-2 rounded-lg hover:bg-muted transition-colors">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      deleteCategory(category.id);
+                      if (editingId === category.id) reset();
+                    }}
+                    title="Delete (its questions are kept)"
+                    className="p-2 rounded-lg hover:bg-muted transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4 text-rose-400" />
+                  </button>
+                </CategoryRow>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Built-in Categories */}
+        <section>
+          <h2 className="text-lg font-semibold mb-3">Built-in categories</h2>
+          <ul className="space-y-2">
+            {builtIn.map((category) => (
+              <CategoryRow key={category.id} category={category}>
+                <Link
+                  href={`/questions/new?category=${encodeURIComponent(category.label)}`}
+                  title="Add a question"
+                  className="p-2 rounded-lg hover:bg-muted transition-colors"
+                >
+                  <FilePlus className="w-4 h-4" />
+                </Link>
+              </CategoryRow>
+            ))}
+          </ul>
+        </section>
+      </div>
+    </main>
+  );
+}
+
+function CategoryRow({ category, children }: { category: Category; children: React.ReactNode }) {
+  return (
+    <li className="flex items-center gap-3 p-3 rounded-lg glass">
+      <span
+        className="w-9 h-9 rounded-lg flex items-center justify-center text-lg"
+        style={{ backgroundColor: `${category.color}20` }}
+      >
+        {category.icon}
+      </span>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium line-clamp-1">{category.name}</p>
+        <p className="text-xs text-muted-foreground line-clamp-1">{category.description}</p>
+      </div>
+      <span className="text-xs text-muted-foreground">{category.questionCount} questions</span>
+      {children}
+    </li>
+  );
+}
@@ -29,7 +29,7 @@ import { LeadershipSection } from '@/components/cv/LeadershipSection';
 import { CustomSectionContent } from '@/components/cv/CustomSection';
 import { SkillsSection } from '@/components/cv/SkillsSection';
 import { FormattingToolbar } from '@/components/cv/FormattingToolbar';
-import { DndWrapper } from '@/components/cv/DndWrapper';
+import { DndWrapper } from '@/components/DndWrapper';
 import { PdfDownloadButton } from '@/components/cv/PdfDownloadButton';
 import { SectionType } from '@/data/cv-types';
 
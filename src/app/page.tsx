@@ -2,29 +2,44 @@
 
 import { CategoryCard } from '@/components/CategoryCard';
 import { PracticeSession } from '@/components/PracticeSession';
+import { ResumePrompt } from '@/components/ResumePrompt';
 import { SessionConfig } from '@/components/SessionConfig';
 import { SessionHistory } from '@/components/SessionHistory';
 import { StatsCard } from '@/components/StatsCard';
-import { categories, stats } from '@/data/questions';
-import { usePracticeStore } from '@/store/practice-store';
+import { useCategories, useQuestionStats } from '@/data/questions';
+import { usePracticeStore, SessionMode, isSessionPaused } from '@/store/practice-store';
 import { motion } from 'framer-motion';
 import {
+  BarChart3,
   BookOpen,
   CheckCircle,
+  Crosshair,
+  ListOrdered,
   Play,
+  Plus,
+  Search,
   Target,
   Trophy,
   Zap
 } from 'lucide-react';
+import Link from 'next/link';
 import { useState } from 'react';
 
 export default function Home() {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [showConfig, setShowConfig] = useState(false);
+  const [configMode, setConfigMode] = useState<SessionMode>('practice');
   const { currentSession, sessionHistory, getStats } = usePracticeStore();
+  const categories = useCategories();
+  const stats = useQuestionStats();
   
   const userStats = getStats();
   
+  // A session restored from storage waits until the user chooses to resume it
+  if (currentSession && isSessionPaused(currentSession)) {
+    return <ResumePrompt />;
+  }
+  
   // If there's an active session, show the practice view
   if (currentSession && !currentSession.isComplete) {
     return <PracticeSession />;
@@ -104,16 +119,46 @@ export default function Home() {
         >
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-bold">Choose a Category</h2>
-            <button
-              onClick={() => {
-                setSelectedCategory('all');
-                setShowConfig(true);
-              }}
-              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-medium hover:opacity-90 transition-opacity"
-            >
-              <Play className="w-4 h-4" />
-              Quick Start (All Categories)
-            </button>
+            <div className="flex flex-wrap gap-2">
+              <Link
+                href="/questions"
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 font-medium transition-colors"
+              >
+                <Search className="w-4 h-4" />
+                Browse Questions
+              </Link>
+              <Link
+                href="/playlists"
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 font-medium transition-colors"
+              >
+                <ListOrdered className="w-4 h-4" />
+                Playlists
+              </Link>
+              {userStats.weakTopics.length > 0 && (
+                <button
+                  onClick={() => {
+                    setSelectedCategory('all');
+                    setConfigMode('drill');
+                    setShowConfig(true);
+                  }}
+                  title={`Weakest: ${userStats.weakTopics.map(topic => topic.key).join(', ')}`}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 font-medium transition-colors"
+                >
+                  <Crosshair className="w-4 h-4" />
+                  Drill My Weak Spots
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setSelectedCategory('all');
+                  setShowConfig(true);
+                }}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-medium hover:opacity-90 transition-opacity"
+              >
+                <Play className="w-4 h-4" />
+                Quick Start (All Categories)
+              </button>
+            </div>
           </div>
           
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -129,6 +174,13 @@ export default function Home() {
                 }}
               />
             ))}
+            <Link
+              href="/categories"
+              className="flex flex-col items-center justify-center gap-2 p-6 rounded-xl border-2 border-dashed border-border hover:border-primary text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <Plus className="w-6 h-6" />
+              <span className="font-medium">Add a category</span>
+            </Link>
           </div>
         </motion.section>
         
@@ -157,7 +209,16 @@ export default function Home() {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.6, delay: 0.4 }}
           >
-            <h2 className="text-2xl font-bold mb-6">Recent Sessions</h2>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold">Recent Sessions</h2>
+              <Link
+                href="/analytics"
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 font-medium transition-colors"
+              >
+                <BarChart3 className="w-4 h-4" />
+                View Progress
+              </Link>
+            </div>
             <SessionHistory sessions={sessionHistory.slice(0, 5)} />
           </motion.section>
         )}
@@ -167,9 +228,11 @@ export default function Home() {
           <SessionConfig
             categoryId={selectedCategory}
             categoryName={selectedCategory === 'all' ? 'All Categories' : categories.find(c => c.id === selectedCategory)?.name || ''}
+            initialMode={configMode}
             onClose={() => {
               setShowConfig(false);
               setSelectedCategory(null);
+              setConfigMode('practice');
             }}
           />
         )}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { RunnerRequest, RunnerResponse, renderApp, runTests } from '@/lib/playground/runner';
+
+// Loaded by CodePlayground inside a sandboxed iframe when Sandpack's bundler is unreachable
+export default function PlaygroundRunner() {
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    // The iframe has an opaque origin, so the parent is recognised by window rather than origin
+    const reply = (message: RunnerResponse) => window.parent.postMessage(message, '*');
+    let unmount: (() => void) | null = null;
+
+    const handleMessage = async (event: MessageEvent<RunnerRequest>) => {
+      if (event.source !== window.parent || event.data?.type !== 'run') return;
+      const { app, tests } = event.data;
+
+      try {
+        if (tests) {
+          const result = await runTests(app, tests);
+          setStatus(`${result.passed.length}/${result.passed.length + result.failed.length} tests passed`);
+          reply({ type: 'tests', result });
+        } else if (previewRef.current) {
+          unmount = renderApp(app, previewRef.current);
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        setError(message);
+        reply({ type: 'error', message });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    reply({ type: 'ready' });
+
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      unmount?.();
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 overflow-auto bg-white text-black p-4 font-sans">
+      {error && <pre className="p-3 mb-4 rounded bg-rose-100 text-rose-700 text-sm whitespace-pre-wrap">{error}</pre>}
+      {status && <p className="text-sm text-gray-600">{status}</p>}
+      <div ref={previewRef} />
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeft, Play, Link2, FileJson, Trash2, Pencil, Check, Download, Search } from 'lucide-react';
+import { getQuestionById } from '@/data/questions';
+import { Question } from '@/data/types';
+import { usePlaylistStore, Playlist } from '@/store/playlist-store';
+import { usePracticeStore, estimateTimeLimit } from '@/store/practice-store';
+import { SharedPlaylist, decodePlaylist, getPlaylistShareUrl, toSharedPlaylist } from '@/lib/playlist-share';
+import { OrderedQuestionList } from '@/components/OrderedQuestionList';
+
+export default function PlaylistsPage() {
+  return (
+    <Suspense>
+      <Playlists />
+    </Suspense>
+  );
+}
+
+function Playlists() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { playlists, updatePlaylist, deletePlaylist, importPlaylist } = usePlaylistStore();
+  const { startSessionFromQuestions } = usePracticeStore();
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [dismissedLink, setDismissedLink] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  // A shared link lands here with ?import=<payload>; ask before adding it
+  const importParam = searchParams.get('import');
+  let linkedPlaylist: SharedPlaylist | null = null;
+  let linkError: string | null = null;
+  if (importParam && !dismissedLink) {
+    try {
+      linkedPlaylist = decodePlaylist(importParam);
+    } catch (error) {
+      linkError = error instanceof Error ? error.message : 'Invalid playlist link';
+    }
+  }
+
+  const handleImport = (shared: SharedPlaylist) => {
+    importPlaylist(shared);
+    setImportText('');
+    setImportError(null);
+  };
+
+  const handleImportText = () => {
+    try {
+      handleImport(decodePlaylist(importText));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Invalid playlist');
+    }
+  };
+
+  const handleImportLink = (shared: SharedPlaylist) => {
+    handleImport(shared);
+    setDismissedLink(true);
+    router.replace('/playlists');
+  };
+
+  const handlePractice = (playlist: Playlist) => {
+    const questions = playlist.questionIds
+      .map(id => getQuestionById(id))
+      .filter((q): q is Question => !!q);
+    startSessionFromQuestions(playlist.questionIds, playlist.name, estimateTimeLimit(questions));
+    router.push('/');
+  };
+
+  const copy = async (key: string, text: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-white/5 transition-colors">
+              <ArrowLeft className="w-5 h-5" />
+              <span className="hidden sm:inline">Dashboard</span>
+            </Link>
+            <h1 className="text-2xl md:text-3xl font-bold">Playlists</h1>
+          </div>
+          <Link
+            href="/questions"
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 text-sm font-medium transition-colors"
+          >
+            <Search className="w-4 h-4" />
+            Pick Questions
+          </Link>
+        </div>
+
+        {/* Shared Link */}
+        {linkedPlaylist && (
+          <div className="glass rounded-xl p-4 mb-6 flex flex-wrap items-center justify-between gap-3 ring-2 ring-primary">
+            <p className="text-sm">
+              Import <span className="font-medium">{linkedPlaylist.name}</span> ({linkedPlaylist.questionIds.length} questions)?
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setDismissedLink(true)}
+                className="px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 text-sm transition-colors"
+              >
+                Dismiss
+              </button>
+              <button
+                onClick={() => handleImportLink(linkedPlaylist)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-white text-sm font-medium"
+              >
+                <Download className="w-4 h-4" />
+                Import
+              </button>
+            </div>
+          </div>
+        )}
+        {linkError && (
+          <div className="p-4 mb-6 rounded-lg bg-rose-500/10 text-sm text-rose-400">{linkError}</div>
+        )}
+
+        {/* Import */}
+        <div className="glass rounded-xl p-4 mb-6 space-y-2">
+          <label className="block text-sm font-medium">Import a shared playlist</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={importText}
+              onChange={(e) => {
+                setImportText(e.target.value);
+                setImportError(null);
+              }}
+              placeholder="Paste a share link or JSON payload"
+              className="flex-1 py-2 px-3 rounded-lg bg-muted/50 border border-border focus:border-primary outline-none text-sm"
+            />
+            <button
+              onClick={handleImportText}
+              disabled={!importText.trim()}
+              className="px-4 py-2 rounded-lg bg-primary text-white text-sm font-medium disabled:opacity-50"
+            >
+              Import
+            </button>
+          </div>
+          {importError && <p className="text-xs text-rose-400">{importError}</p>}
+        </div>
+
+        {/* Playlists */}
+        <div className="space-y-4">
+          {playlists.length === 0 && (
+            <div className="glass rounded-xl p-8 text-center text-muted-foreground">
+              No playlists yet. Pick questions in the question browser and save them as a playlist.
+            </div>
+          )}
+
+          {playlists.map((playlist) => {
+            const shared = toSharedPlaylist(playlist.name, playlist.questionIds);
+            const missing = playlist.questionIds.filter(id => !getQuestionById(id)).length;
+            const isEditing = editingId === playlist.id;
+
+            return (
+              <div key={playlist.id} className="glass rounded-xl p-4 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    {isEditing ? (
+                      <input
+                        type="text"
+                        value={playlist.name}
+                        onChange={(e) => updatePlaylist(playlist.id, { name: e.target.value })}
+                        className="w-full py-1 px-2 rounded-lg bg-muted/50 border border-border focus:border-primary outline-none font-semibold"
+                      />
+                    ) : (
+                      <h2 className="font-semibold truncate">{playlist.name}</h2>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {playlist.questionIds.length} questions
+                      {missing > 0 && <span className="text-amber-400"> • {missing} not in this question bank</span>}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap gap-1">
+                    <IconButton
+                      title="Copy share link"
+                      onClick={() => copy(`${playlist.id}-link`, getPlaylistShareUrl(shared, window.location.origin))}
+                    >
+                      {copied === `${playlist.id}-link` ? <Check className="w-4 h-4 text-emerald-400" /> : <Link2 className="w-4 h-4" />}
+                    </IconButton>
+                    <IconButton
+                      title="Copy JSON"
+                      onClick={() => copy(`${playlist.id}-json`, JSON.stringify(shared, null, 2))}
+                    >
+                      {copied === `${playlist.id}-json` ? <Check className="w-4 h-4 text-emerald-400" /> : <FileJson className="w-4 h-4" />}
+                    </IconButton>
+                    <IconButton
+                      title={isEditing ? 'Done' : 'Edit'}
+                      onClick={() => setEditingId(isEditing ? null : playlist.id)}
+                    >
+                      {isEditing ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                    </IconButton>
+                    <IconButton title="Delete" onClick={() => deletePlaylist(playlist.id)}>
+                      <Trash2 className="w-4 h-4 text-rose-400" />
+                    </IconButton>
+                    <button
+                      onClick={() => handlePractice(playlist)}
+                      disabled={playlist.questionIds.length === missing}
+                      className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+                    >
+                      <Play className="w-4 h-4" />
+                      Practice
+                    </button>
+                  </div>
+                </div>
+
+                {isEditing && (
+                  <OrderedQuestionList
+                    questionIds={playlist.questionIds}
+                    onChange={(questionIds) => updatePlaylist(playlist.id, { questionIds })}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+function IconButton({ title, onClick, children }: { title: string; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className="p-2 rounded-lg bg-muted hover:bg-muted/80 transition-colors"
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Copy } from 'lucide-react';
+import { useCustomQuestionStore } from '@/store/custom-question-store';
+import { getQuestionById } from '@/data/questions';
+import { QuestionEditor } from '@/components/QuestionEditor';
+
+export default function EditQuestion({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const questionId = decodeURIComponent(id);
+  const router = useRouter();
+  const { questions, saveQuestion } = useCustomQuestionStore();
+  const question = questions.find(q => q.id === questionId);
+  const builtIn = !question && getQuestionById(questionId);
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center gap-4 mb-8">
+          <Link
+            href={`/questions/${encodeURIComponent(questionId)}`}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-white/5 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span className="hidden sm:inline">Back</span>
+          </Link>
+          <h1 className="text-2xl md:text-3xl font-bold">Edit Question</h1>
+        </div>
+
+        {question ? (
+          <QuestionEditor
+            initial={question}
+            originalId={question.id}
+            onSave={(updated) => {
+              saveQuestion(updated, question.id);
+              router.push(`/questions/${encodeURIComponent(updated.id)}`);
+            }}
+          />
+        ) : (
+          // Built-in questions come from content/questions and are changed there
+          <div className="glass rounded-2xl p-8 text-center space-y-4">
+            <p className="text-muted-foreground">
+              {builtIn
+                ? 'Built-in questions can\'t be edited here. Duplicate it to make your own version.'
+                : 'Question not found.'}
+            </p>
+            {builtIn && (
+              <Link
+                href={`/questions/new?from=${encodeURIComponent(questionId)}`}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-white text-sm font-medium"
+              >
+                <Copy className="w-4 h-4" />
+                Duplicate
+              </Link>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
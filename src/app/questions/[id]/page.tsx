@@ -0,0 +1,169 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Play, CheckCircle2, Circle, MessageSquare, Clock, Pencil, Copy } from 'lucide-react';
+import { getQuestionById } from '@/data/questions';
+import { usePracticeStore } from '@/store/practice-store';
+import { useCustomQuestionStore } from '@/store/custom-question-store';
+import { describeExpectedAnswer } from '@/lib/answer-formats';
+import { CodeBlock } from '@/components/CodeBlock';
+import { Markdown, InlineMarkdown } from '@/components/Markdown';
+import { DifficultyBadge } from '@/components/DifficultyBadge';
+
+export default function QuestionDetail({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const router = useRouter();
+  const { startSessionFromQuestions } = usePracticeStore();
+  const customQuestions = useCustomQuestionStore(state => state.questions);
+  const question = getQuestionById(decodeURIComponent(id));
+  const isCustom = !!question && customQuestions.some(q => q.id === question.id);
+
+  if (!question) {
+    return (
+      <main className="min-h-screen p-4 md:p-8">
+        <div className="max-w-4xl mx-auto glass rounded-2xl p-8 text-center">
+          <h1 className="text-2xl font-bold mb-4">Question not found</h1>
+          <Link href="/questions" className="text-primary hover:underline">
+            Back to the question browser
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  const handlePractice = () => {
+    startSessionFromQuestions([question.id], question.question, Math.max(question.timeEstimate, 1));
+    router.push('/');
+  };
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <Link href="/questions" className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-white/5 transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span>All Questions</span>
+          </Link>
+          <div className="flex items-center gap-2">
+            <Link
+              href={isCustom
+                ? `/questions/${encodeURIComponent(question.id)}/edit`
+                : `/questions/new?from=${encodeURIComponent(question.id)}`}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 font-medium transition-colors"
+            >
+              {isCustom ? <Pencil className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              {isCustom ? 'Edit' : 'Duplicate'}
+            </Link>
+            <button
+              onClick={handlePractice}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-medium hover:opacity-90 transition-opacity"
+            >
+              <Play className="w-4 h-4" />
+              Practice
+            </button>
+          </div>
+        </div>
+
+        <article className="glass rounded-2xl p-6 md:p-8 space-y-6">
+          {/* Meta */}
+          <div className="flex flex-wrap gap-2">
+            <span className="px-3 py-1 rounded-full text-xs font-medium bg-primary/20 text-primary">
+              {question.category}
+            </span>
+            {question.subcategory && (
+              <span className="px-3 py-1 rounded-full text-xs font-medium bg-muted text-muted-foreground">
+                {question.subcategory}
+              </span>
+            )}
+            <DifficultyBadge difficulty={question.difficulty} />
+            <span className="px-3 py-1 rounded-full text-xs font-medium bg-muted text-muted-foreground">
+              {question.type}
+            </span>
+            <span className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-muted text-muted-foreground">
+              <Clock className="w-3 h-3" />
+              ~{question.timeEstimate} min
+            </span>
+          </div>
+
+          <h1 className="text-xl md:text-2xl font-semibold"><InlineMarkdown text={question.question} /></h1>
+
+          {/* Options */}
+          {question.options && (
+            <ul className="space-y-2">
+              {question.options.map((option) => (
+                <li
+                  key={option.id}
+                  className={`flex items-start gap-3 p-3 rounded-lg ${option.isCorrect ? 'bg-emerald-500/10 text-emerald-400' : 'bg-muted/50'}`}
+                >
+                  {option.isCorrect ? <CheckCircle2 className="w-5 h-5 shrink-0" /> : <Circle className="w-5 h-5 shrink-0 text-muted-foreground" />}
+                  <span className={question.answerFormat === 'predict-output' ? 'font-mono text-sm whitespace-pre-wrap' : undefined}>
+                    <span className="font-medium text-muted-foreground mr-2">{option.id.toUpperCase()}.</span>
+                    {option.text}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Steps, Blanks and Output */}
+          {(question.steps || question.blanks || question.expectedOutput) && (
+            <section>
+              <h2 className="font-semibold text-emerald-400 mb-2">
+                {question.steps ? 'Correct Order' : question.blanks ? 'Accepted Answers' : 'Expected Output'}
+              </h2>
+              <div className={`p-3 rounded-lg bg-emerald-500/10 text-sm whitespace-pre-wrap ${question.expectedOutput ? 'font-mono' : ''}`}>
+                {describeExpectedAnswer(question)}
+              </div>
+            </section>
+          )}
+
+          {/* Answer */}
+          <section>
+            <h2 className="font-semibold text-emerald-400 mb-2">
+              {question.answerFormat === 'essay' ? 'Expected Answer' : 'Explanation'}
+            </h2>
+            <Markdown text={question.answer} className="text-sm" />
+          </section>
+
+          {question.codeExample && (
+            <section>
+              <h2 className="font-semibold text-emerald-400 mb-2">Code Example</h2>
+              <CodeBlock code={question.codeExample} />
+            </section>
+          )}
+
+          {/* Follow-ups */}
+          {question.followUp && question.followUp.length > 0 && (
+            <section>
+              <h2 className="flex items-center gap-2 font-semibold mb-2">
+                <MessageSquare className="w-4 h-4 text-primary" />
+                Follow-up Questions
+              </h2>
+              <ul className="space-y-2">
+                {question.followUp.map((followUp, index) => (
+                  <li key={followUp} className="p-3 rounded-lg bg-muted/50 text-sm space-y-2">
+                    <p>{followUp}</p>
+                    {question.followUpAnswers?.[index]?.trim() && (
+                      <Markdown text={question.followUpAnswers[index]} className="text-muted-foreground" />
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {question.tags.map((tag) => (
+              <span key={tag} className="px-2 py-1 rounded-md text-xs bg-muted text-muted-foreground">
+                #{tag}
+              </span>
+            ))}
+          </div>
+        </article>
+      </div>
+    </main>
+  );
+}
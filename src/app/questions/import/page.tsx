@@ -0,0 +1,229 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Upload, FileCheck, AlertTriangle, Trash2, Download, CheckCircle2, Pencil } from 'lucide-react';
+import { allQuestions } from '@/data/questions';
+import { PackFormat, PackImportResult, detectPackFormat, exportQuestionsJson, importQuestionPack } from '@/lib/question-packs';
+import { downloadFile } from '@/lib/download';
+import { useCustomQuestionStore } from '@/store/custom-question-store';
+import { DifficultyBadge } from '@/components/DifficultyBadge';
+
+const builtInIds = new Set(allQuestions.map(q => q.id));
+
+export default function ImportQuestions() {
+  const { questions: customQuestions, addQuestions, removeQuestion, clearQuestions } = useCustomQuestionStore();
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [replaceCustom, setReplaceCustom] = useState(false);
+  const [result, setResult] = useState<PackImportResult | null>(null);
+  const [imported, setImported] = useState<number | null>(null);
+
+  const check = (content: string, name: string) => {
+    const format: PackFormat = detectPackFormat(name, content);
+    // Built-in IDs always collide; custom ones only when they shouldn't be replaced
+    const existingIds = replaceCustom
+      ? builtInIds
+      : new Set([...builtInIds, ...customQuestions.map(q => q.id)]);
+    setResult(importQuestionPack(content, format, existingIds));
+    setImported(null);
+  };
+
+  const handleFile = async (file: File) => {
+    const content = await file.text();
+    setText(content);
+    setFileName(file.name);
+    check(content, file.name);
+  };
+
+  const handleImport = () => {
+    if (!result) return;
+    addQuestions(result.questions);
+    setImported(result.questions.length);
+    setResult(null);
+    setText('');
+    setFileName('');
+  };
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/questions" className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-white/5 transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="hidden sm:inline">All Questions</span>
+          </Link>
+          <h1 className="text-2xl md:text-3xl font-bold">Import Questions</h1>
+        </div>
+
+        {/* Source */}
+        <div className="glass rounded-xl p-4 mb-6 space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Import a JSON or CSV pack exported from the question browser. Every question is checked against the
+            question schema before it is added.
+          </p>
+          <label className="flex items-center justify-center gap-2 p-6 rounded-lg border-2 border-dashed border-border hover:border-primary cursor-pointer text-sm transition-colors">
+            <Upload className="w-5 h-5 text-primary" />
+            {fileName || 'Choose a .json or .csv file'}
+            <input
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setFileName('');
+              setResult(null);
+            }}
+            placeholder="...or paste the pack here"
+            className="w-full h-32 p-3 rounded-lg bg-muted/50 border border-border focus:border-primary outline-none resize-none font-mono text-xs"
+          />
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={replaceCustom}
+                onChange={(e) => {
+                  setReplaceCustom(e.target.checked);
+                  setResult(null);
+                }}
+              />
+              Replace custom questions with the same ID
+            </label>
+            <button
+              onClick={() => check(text, fileName)}
+              disabled={!text.trim()}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 text-sm font-medium disabled:opacity-50 transition-colors"
+            >
+              <FileCheck className="w-4 h-4" />
+              Check
+            </button>
+          </div>
+        </div>
+
+        {imported !== null && (
+          <div className="flex items-center gap-2 p-4 mb-6 rounded-lg bg-emerald-500/10 text-sm text-emerald-400">
+            <CheckCircle2 className="w-4 h-4" />
+            Imported {imported} {imported === 1 ? 'question' : 'questions'}.
+          </div>
+        )}
+
+        {/* Report */}
+        {result && (
+          <div className="glass rounded-xl p-4 mb-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm">
+                <span className="font-medium text-emerald-400">{result.questions.length} ready</span>
+                {result.collisions.length > 0 && <span className="text-amber-400"> • {result.collisions.length} ID collisions</span>}
+                {result.errors.length > 0 && <span className="text-rose-400"> • {result.errors.length} invalid</span>}
+              </p>
+              <button
+                onClick={handleImport}
+                disabled={result.questions.length === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                Import {result.questions.length}
+              </button>
+            </div>
+
+            {result.collisions.length > 0 && (
+              <IssueList
+                title="Skipped: ID already exists"
+                tone="text-amber-400"
+                items={result.collisions}
+              />
+            )}
+            {result.errors.length > 0 && (
+              <IssueList title="Skipped: invalid" tone="text-rose-400" items={result.errors} />
+            )}
+          </div>
+        )}
+
+        {/* Custom Questions */}
+        <div className="glass rounded-xl p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="font-semibold">Custom questions ({customQuestions.length})</h2>
+            {customQuestions.length > 0 && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => downloadFile('custom-questions.json', exportQuestionsJson(customQuestions, 'Custom questions'), 'application/json')}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg bg-muted hover:bg-muted/80 text-sm transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  Export
+                </button>
+                <button
+                  onClick={clearQuestions}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg bg-muted hover:bg-muted/80 text-sm text-rose-400 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Remove all
+                </button>
+              </div>
+            )}
+          </div>
+
+          {customQuestions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No custom questions yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {customQuestions.map((question) => (
+                <li key={question.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
+                  <div className="flex-1 min-w-0">
+                    <Link href={`/questions/${encodeURIComponent(question.id)}`} className="text-sm hover:text-primary line-clamp-1">
+                      {question.question}
+                    </Link>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {question.id} • {question.category}
+                    </p>
+                  </div>
+                  <DifficultyBadge difficulty={question.difficulty} size="sm" />
+                  <Link
+                    href={`/questions/${encodeURIComponent(question.id)}/edit`}
+                    title="Edit"
+                    className="p-2 rounded-lg hover:bg-muted transition-colors"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Link>
+                  <button
+                    onClick={() => removeQuestion(question.id)}
+                    title="Remove"
+                    className="p-2 rounded-lg hover:bg-muted transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4 text-rose-400" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+function IssueList({ title, tone, items }: { title: string; tone: string; items: string[] }) {
+  return (
+    <div>
+      <p className={`flex items-center gap-2 text-sm font-medium mb-2 ${tone}`}>
+        <AlertTriangle className="w-4 h-4" />
+        {title}
+      </p>
+      <ul className="max-h-48 overflow-y-auto space-y-1 text-xs text-muted-foreground font-mono">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
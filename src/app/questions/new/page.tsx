@@ -0,0 +1,50 @@
+'use client';
+
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { getQuestionById } from '@/data/questions';
+import { useCustomQuestionStore } from '@/store/custom-question-store';
+import { QuestionEditor } from '@/components/QuestionEditor';
+
+export default function NewQuestionPage() {
+  return (
+    <Suspense>
+      <NewQuestion />
+    </Suspense>
+  );
+}
+
+// ?from=<id> starts from a copy of an existing question; ?category=<label> presets the category
+function NewQuestion() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { saveQuestion } = useCustomQuestionStore();
+  const source = getQuestionById(searchParams.get('from') ?? '');
+  const initial = source ? { ...source, id: `${source.id}-copy` } : undefined;
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/questions" className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-white/5 transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="hidden sm:inline">All Questions</span>
+          </Link>
+          <h1 className="text-2xl md:text-3xl font-bold">{source ? 'Duplicate Question' : 'New Question'}</h1>
+        </div>
+
+        <QuestionEditor
+          key={initial?.id}
+          initial={initial}
+          defaultCategory={searchParams.get('category') ?? undefined}
+          onSave={(question) => {
+            saveQuestion(question);
+            router.push(`/questions/${encodeURIComponent(question.id)}`);
+          }}
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,411 @@
+'use client';
+
+import { useDeferredValue, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Search, Filter, Play, X, Plus, Check, ListOrdered, Bookmark, Upload, Download, FilePlus } from 'lucide-react';
+import { allQuestions } from '@/data/questions';
+import { Question } from '@/data/types';
+import { rankQuestions } from '@/lib/search';
+import { exportAnkiDeck, exportQuestionsCsv, exportQuestionsJson } from '@/lib/question-packs';
+import { downloadFile } from '@/lib/download';
+import { usePracticeStore, estimateTimeLimit } from '@/store/practice-store';
+import { usePlaylistStore } from '@/store/playlist-store';
+import { useCustomQuestionStore } from '@/store/custom-question-store';
+import { DifficultyBadge } from '@/components/DifficultyBadge';
+import { OrderedQuestionList } from '@/components/OrderedQuestionList';
+
+type FacetKey = 'category' | 'difficulty' | 'type' | 'answerFormat' | 'tags';
+
+type FacetSelection = Record<FacetKey, string[]>;
+
+const facets: { key: FacetKey; label: string; values: (q: Question) => string[] }[] = [
+  { key: 'category', label: 'Category', values: q => [q.category] },
+  { key: 'difficulty', label: 'Difficulty', values: q => [q.difficulty] },
+  { key: 'type', label: 'Type', values: q => [q.type] },
+  { key: 'answerFormat', label: 'Format', values: q => [q.answerFormat] },
+  { key: 'tags', label: 'Tags', values: q => q.tags },
+];
+
+const emptySelection: FacetSelection = {
+  category: [],
+  difficulty: [],
+  type: [],
+  answerFormat: [],
+  tags: [],
+};
+
+const TAG_PREVIEW_COUNT = 20;
+
+// Values within a facet are OR-ed, facets are AND-ed; `except` skips one facet for its own counts
+function matchesFacets(question: Question, selection: FacetSelection, except?: FacetKey): boolean {
+  return facets.every(({ key, values }) => {
+    if (key === except || selection[key].length === 0) return true;
+    return values(question).some(value => selection[key].includes(value));
+  });
+}
+
+export default function QuestionBrowser() {
+  const router = useRouter();
+  const { startSessionFromQuestions } = usePracticeStore();
+  const { createPlaylist } = usePlaylistStore();
+  const customQuestions = useCustomQuestionStore(state => state.questions);
+  const [query, setQuery] = useState('');
+  const [selection, setSelection] = useState<FacetSelection>(emptySelection);
+  const [showAllTags, setShowAllTags] = useState(false);
+  const [practiceCount, setPracticeCount] = useState(10);
+  const [picked, setPicked] = useState<string[]>([]);
+  const [playlistName, setPlaylistName] = useState('');
+  const deferredQuery = useDeferredValue(query);
+
+  const questionPool = useMemo(() => [...allQuestions, ...customQuestions], [customQuestions]);
+  const hits = useMemo(() => rankQuestions(questionPool, deferredQuery), [questionPool, deferredQuery]);
+
+  const results = useMemo(
+    () => hits.filter(hit => matchesFacets(hit.question, selection)).map(hit => hit.question),
+    [hits, selection]
+  );
+
+  // Counts for each facet value, given the query and every other facet
+  const facetCounts = useMemo(() => {
+    const counts = {} as Record<FacetKey, [string, number][]>;
+    facets.forEach(({ key, values }) => {
+      const tally = new Map<string, number>();
+      hits.forEach(({ question }) => {
+        if (!matchesFacets(question, selection, key)) return;
+        values(question).forEach(value => tally.set(value, (tally.get(value) || 0) + 1));
+      });
+      counts[key] = [...tally.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    });
+    return counts;
+  }, [hits, selection]);
+
+  const toggleFacet = (key: FacetKey, value: string) => {
+    setSelection(prev => ({
+      ...prev,
+      [key]: prev[key].includes(value)
+        ? prev[key].filter(v => v !== value)
+        : [...prev[key], value],
+    }));
+  };
+
+  const hasFilters = query.trim() !== '' || facets.some(({ key }) => selection[key].length > 0);
+  const sessionQuestions = results.slice(0, practiceCount);
+
+  const handlePractice = () => {
+    const name = query.trim() ? `Search: ${query.trim()}` : 'Question Browser';
+    startSessionFromQuestions(sessionQuestions.map(q => q.id), name, estimateTimeLimit(sessionQuestions));
+    router.push('/');
+  };
+
+  const togglePicked = (id: string) => {
+    setPicked(prev => (prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]));
+  };
+
+  const handlePracticePicked = () => {
+    const questions = picked.map(id => questionPool.find(q => q.id === id)).filter((q): q is Question => !!q);
+    startSessionFromQuestions(picked, playlistName.trim() || 'Hand-picked Questions', estimateTimeLimit(questions));
+    router.push('/');
+  };
+
+  const handleExport = (format: 'json' | 'csv' | 'anki') => {
+    const name = query.trim() ? `questions-${query.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}` : 'questions';
+    if (format === 'json') {
+      downloadFile(`${name}.json`, exportQuestionsJson(results, name), 'application/json');
+    } else if (format === 'csv') {
+      downloadFile(`${name}.csv`, exportQuestionsCsv(results), 'text/csv');
+    } else {
+      downloadFile(`${name}-anki.txt`, exportAnkiDeck(results), 'text/plain');
+    }
+  };
+
+  const handleSavePlaylist = () => {
+    createPlaylist(playlistName, picked);
+    router.push('/playlists');
+  };
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-white/5 transition-colors">
+              <ArrowLeft className="w-5 h-5" />
+              <span className="hidden sm:inline">Dashboard</span>
+            </Link>
+            <h1 className="text-2xl md:text-3xl font-bold">Question Browser</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/questions/import"
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 text-sm font-medium transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              Import
+            </Link>
+            <Link
+              href="/questions/new"
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-white text-sm font-medium hover:opacity-90 transition-opacity"
+            >
+              <FilePlus className="w-4 h-4" />
+              New Question
+            </Link>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="relative mb-6">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search questions, answers, tags and code..."
+            className="w-full py-4 pl-12 pr-4 rounded-xl bg-muted/50 border border-border focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-colors"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6">
+          {/* Facets */}
+          <aside className="glass rounded-xl p-4 h-fit space-y-6">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-sm font-medium">
+                <Filter className="w-4 h-4 text-primary" />
+                Filters
+              </span>
+              {hasFilters && (
+                <button
+                  onClick={() => {
+                    setQuery('');
+                    setSelection(emptySelection);
+                  }}
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                >
+                  <X className="w-3 h-3" />
+                  Clear
+                </button>
+              )}
+            </div>
+
+            {facets.map(({ key, label }) => (
+              <FacetGroup
+                key={key}
+                label={label}
+                values={facetCounts[key]}
+                limit={key === 'tags' && !showAllTags ? TAG_PREVIEW_COUNT : undefined}
+                selected={selection[key]}
+                onToggle={(value) => toggleFacet(key, value)}
+                footer={key === 'tags' && facetCounts.tags.length > TAG_PREVIEW_COUNT && (
+                  <button
+                    onClick={() => setShowAllTags(!showAllTags)}
+                    className="text-xs text-primary hover:underline mt-2"
+                  >
+                    {showAllTags ? 'Show fewer' : `Show all ${facetCounts.tags.length}`}
+                  </button>
+                )}
+              />
+            ))}
+          </aside>
+
+          {/* Results */}
+          <section>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <p className="text-sm text-muted-foreground">
+                {results.length} {results.length === 1 ? 'question' : 'questions'}
+              </p>
+
+              {results.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <div className="flex items-center rounded-lg bg-muted text-sm">
+                    <span className="flex items-center gap-1 pl-3 pr-1 text-muted-foreground">
+                      <Download className="w-4 h-4" />
+                      Export
+                    </span>
+                    {(['json', 'csv', 'anki'] as const).map((format) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        className="px-2 py-2 uppercase text-xs font-medium hover:text-primary transition-colors"
+                      >
+                        {format}
+                      </button>
+                    ))}
+                  </div>
+                  <select
+                    value={practiceCount}
+                    onChange={(e) => setPracticeCount(Number(e.target.value))}
+                    className="py-2 px-3 rounded-lg bg-muted text-sm outline-none"
+                  >
+                    {[5, 10, 20, 50].map((count) => (
+                      <option key={count} value={count}>Top {count}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handlePractice}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white text-sm font-medium hover:opacity-90 transition-opacity"
+                  >
+                    <Play className="w-4 h-4" />
+                    Practice {sessionQuestions.length}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Picked Questions */}
+            {picked.length > 0 && (
+              <div className="glass rounded-xl p-4 mb-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-2 text-sm font-medium">
+                    <ListOrdered className="w-4 h-4 text-primary" />
+                    Picked ({picked.length})
+                  </span>
+                  <button
+                    onClick={() => setPicked([])}
+                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="w-3 h-3" />
+                    Clear
+                  </button>
+                </div>
+                <OrderedQuestionList questionIds={picked} onChange={setPicked} />
+                <input
+                  type="text"
+                  value={playlistName}
+                  onChange={(e) => setPlaylistName(e.target.value)}
+                  placeholder="Playlist name, e.g. Top 15 hooks questions for Friday's loop"
+                  className="w-full py-2 px-3 rounded-lg bg-muted/50 border border-border focus:border-primary outline-none text-sm"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSavePlaylist}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-muted hover:bg-muted/80 text-sm font-medium transition-colors"
+                  >
+                    <Bookmark className="w-4 h-4" />
+                    Save Playlist
+                  </button>
+                  <button
+                    onClick={handlePracticePicked}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white text-sm font-medium hover:opacity-90 transition-opacity"
+                  >
+                    <Play className="w-4 h-4" />
+                    Practice in Order
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {results.map((question, index) => (
+                <motion.div
+                  key={question.id}
+                  className="relative"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.2, delay: Math.min(index, 10) * 0.02 }}
+                >
+                  <button
+                    onClick={() => togglePicked(question.id)}
+                    className={`
+                      absolute top-3 right-3 z-10 flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium transition-colors
+                      ${picked.includes(question.id) ? 'bg-primary text-white' : 'bg-muted hover:bg-muted/80'}
+                    `}
+                  >
+                    {picked.includes(question.id) ? <Check className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+                    {picked.includes(question.id) ? 'Picked' : 'Pick'}
+                  </button>
+                  <Link
+                    href={`/questions/${question.id}`}
+                    className="block glass rounded-xl p-4 pr-24 hover:bg-white/5 transition-colors"
+                  >
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-primary/20 text-primary">
+                        {question.category}
+                      </span>
+                      <DifficultyBadge difficulty={question.difficulty} size="sm" />
+                      <span className="px-2 py-1 rounded-full text-xs bg-muted text-muted-foreground">
+                        {question.type}
+                      </span>
+                      <span className="px-2 py-1 rounded-full text-xs bg-muted text-muted-foreground">
+                        {question.answerFormat}
+                      </span>
+                    </div>
+                    <h3 className="font-medium mb-1">{question.question}</h3>
+                    <p className="text-sm text-muted-foreground line-clamp-2">{question.answer}</p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {question.tags.map((tag) => (
+                        <span key={tag} className="text-xs text-muted-foreground">#{tag}</span>
+                      ))}
+                    </div>
+                  </Link>
+                </motion.div>
+              ))}
+
+              {results.length === 0 && (
+                <div className="glass rounded-xl p-8 text-center text-muted-foreground">
+                  No questions match your search.
+                </div>
+              )}
+            </div>
+          </section>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+function FacetGroup({
+  label,
+  values,
+  limit,
+  selected,
+  onToggle,
+  footer,
+}: {
+  label: string;
+  values: [string, number][];
+  limit?: number;
+  selected: string[];
+  onToggle: (value: string) => void;
+  footer?: React.ReactNode;
+}) {
+  const visible = limit ? values.slice(0, limit) : values;
+  // Keep selected values visible even when they fall outside the limit or the query leaves none
+  const hiddenSelected = selected.filter(value => !visible.some(([v]) => v === value));
+  
+  return (
+    <div>
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">{label}</h3>
+      <div className="space-y-1">
+        {visible.map(([value, count]) => (
+          <label key={value} className="flex items-center gap-2 text-sm cursor-pointer hover:text-foreground">
+            <input
+              type="checkbox"
+              checked={selected.includes(value)}
+              onChange={() => onToggle(value)}
+              className="accent-indigo-500"
+            />
+            <span className="flex-1 truncate">{value}</span>
+            <span className="text-xs text-muted-foreground">{count}</span>
+          </label>
+        ))}
+        {hiddenSelected.map((value) => (
+          <label key={value} className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked
+              onChange={() => onToggle(value)}
+              className="accent-indigo-500"
+            />
+            <span className="flex-1 truncate">{value}</span>
+            <span className="text-xs text-muted-foreground">
+              {values.find(([v]) => v === value)?.[1] ?? 0}
+            </span>
+          </label>
+        ))}
+      </div>
+      {footer}
+    </div>
+  );
+}
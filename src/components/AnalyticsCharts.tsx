@@ -0,0 +1,129 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { GroupScore, TimeBucket, TrendPoint } from '@/lib/analytics';
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const PADDING = 8;
+
+const scoreColor = (score: number) => {
+  if (score >= 75) return 'bg-emerald-500';
+  if (score >= 50) return 'bg-amber-500';
+  return 'bg-rose-500';
+};
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(date);
+
+interface TrendChartProps {
+  points: TrendPoint[];
+  color: string;
+}
+
+// Score per session on a fixed 0-100 axis, so charts for different categories compare directly
+export function TrendChart({ points, color }: TrendChartProps) {
+  const x = (index: number) =>
+    points.length === 1
+      ? CHART_WIDTH / 2
+      : PADDING + (index / (points.length - 1)) * (CHART_WIDTH - PADDING * 2);
+  const y = (score: number) => PADDING + (1 - score / 100) * (CHART_HEIGHT - PADDING * 2);
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(point.score)}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-28">
+        {[0, 50, 100].map((score) => (
+          <line
+            key={score}
+            x1={PADDING}
+            x2={CHART_WIDTH - PADDING}
+            y1={y(score)}
+            y2={y(score)}
+            stroke="currentColor"
+            strokeOpacity={0.1}
+            strokeDasharray={score === 50 ? '4 4' : undefined}
+          />
+        ))}
+        <motion.path
+          d={path}
+          fill="none"
+          stroke={color}
+          strokeWidth={2}
+          strokeLinejoin="round"
+          initial={{ pathLength: 0 }}
+          animate={{ pathLength: 1 }}
+          transition={{ duration: 0.8 }}
+        />
+        {points.map((point, index) => (
+          <circle key={point.sessionId} cx={x(index)} cy={y(point.score)} r={3} fill={color}>
+            <title>{`${formatDate(point.date)}: ${point.score}% over ${point.answers} ${point.answers === 1 ? 'answer' : 'answers'}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatDate(points[0].date)}</span>
+        {points.length > 1 && <span>{formatDate(points[points.length - 1].date)}</span>}
+      </div>
+    </div>
+  );
+}
+
+interface ScoreBarsProps {
+  groups: GroupScore[];
+  formatKey?: (key: string) => string;
+}
+
+// One horizontal bar per group; groups without answers show a dash
+export function ScoreBars({ groups, formatKey = (key) => key }: ScoreBarsProps) {
+  return (
+    <div className="space-y-3">
+      {groups.map((group) => (
+        <div key={group.key}>
+          <div className="flex items-center justify-between mb-1 text-sm">
+            <span className="font-medium">{formatKey(group.key)}</span>
+            <span className="text-muted-foreground">
+              {group.answers > 0 ? `${group.averageScore}% • ${group.answers} answered` : '—'}
+            </span>
+          </div>
+          <div className="h-2 bg-muted rounded-full overflow-hidden">
+            <motion.div
+              className={`h-full rounded-full ${scoreColor(group.averageScore)}`}
+              initial={{ width: 0 }}
+              animate={{ width: `${group.answers > 0 ? group.averageScore : 0}%` }}
+              transition={{ duration: 0.6 }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface TimeHistogramProps {
+  buckets: TimeBucket[];
+}
+
+// Columns are shares of the estimate; the ones past 100% are answers that ran long
+export function TimeHistogram({ buckets }: TimeHistogramProps) {
+  const largest = Math.max(1, ...buckets.map(bucket => bucket.count));
+
+  return (
+    <div className="flex items-end gap-2 h-40">
+      {buckets.map((bucket) => (
+        <div key={bucket.label} className="flex-1 flex flex-col items-center gap-1 h-full">
+          <span className="text-xs text-muted-foreground">{bucket.count}</span>
+          <div className="flex-1 w-full flex items-end">
+            <motion.div
+              className={`w-full rounded-t-md ${bucket.min >= 1 ? 'bg-amber-500/70' : 'bg-indigo-500/70'}`}
+              initial={{ height: 0 }}
+              animate={{ height: `${(bucket.count / largest) * 100}%` }}
+              transition={{ duration: 0.6 }}
+            />
+          </div>
+          <span className="text-[10px] text-muted-foreground whitespace-nowrap">{bucket.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,21 +2,37 @@
 
 import { useState, useMemo } from 'react';
 import { Copy, Check } from 'lucide-react';
+import { DiffMarker, TokenType, highlightCode, looksLikeDiff, parseDiff } from '@/lib/highlight';
 
 interface CodeBlockProps {
   code: string;
-  language?: string;
+  language?: string; // Fence name such as `tsx`, `css` or `bash`; `diff` or `diff-<language>` for before/after code
+  highlightLines?: number[]; // 1-based lines to emphasise
+  diff?: boolean; // Render `+`/`-` lines as additions and removals; detected from the code when unset
 }
 
-// Token types for syntax highlighting
-type TokenType = 'keyword' | 'string' | 'comment' | 'number' | 'function' | 'jsx' | 'plain';
+const tokenClasses: Record<TokenType, string> = {
+  keyword: 'text-purple-400',
+  string: 'text-emerald-400',
+  comment: 'text-gray-500 italic',
+  number: 'text-amber-400',
+  function: 'text-blue-400',
+  type: 'text-cyan-400',
+  tag: 'text-cyan-400',
+  attribute: 'text-sky-300',
+  property: 'text-sky-300',
+  regex: 'text-orange-400',
+  variable: 'text-rose-300',
+  plain: '',
+};
 
-interface Token {
-  type: TokenType;
-  value: string;
-}
+const diffClasses: Record<DiffMarker, string> = {
+  '+': 'bg-emerald-500/10',
+  '-': 'bg-rose-500/10',
+  ' ': '',
+};
 
-export function CodeBlock({ code, language = 'typescript' }: CodeBlockProps) {
+export function CodeBlock({ code, language = 'typescript', highlightLines = [], diff }: CodeBlockProps) {
   const [copied, setCopied] = useState(false);
   
   const handleCopy = async () => {
@@ -25,123 +41,16 @@ export function CodeBlock({ code, language = 'typescript' }: CodeBlockProps) {
     setTimeout(() => setCopied(false), 2000);
   };
   
-  // Tokenize and highlight code properly
-  const highlightedCode = useMemo(() => {
-    const keywords = new Set([
-      'const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while',
-      'class', 'import', 'export', 'from', 'async', 'await', 'try', 'catch',
-      'throw', 'new', 'this', 'extends', 'implements', 'interface', 'type',
-      'enum', 'public', 'private', 'protected', 'static', 'readonly', 'abstract',
-      'default', 'switch', 'case', 'break', 'continue', 'typeof', 'instanceof',
-      'in', 'of', 'null', 'undefined', 'true', 'false', 'void', 'never', 'any',
-      'string', 'number', 'boolean', 'object', 'symbol', 'bigint'
-    ]);
-    
-    const lines = code.split('\n');
-    
-    return lines.map((line, lineIndex) => {
-      const tokens: Token[] = [];
-      let i = 0;
-      
-      while (i < line.length) {
-        // Check for single-line comment
-        if (line.slice(i, i + 2) === '//') {
-          tokens.push({ type: 'comment', value: line.slice(i) });
-          break;
-        }
-        
-        // Check for multi-line comment start
-        if (line.slice(i, i + 2) === '/*') {
-          const endIndex = line.indexOf('*/', i + 2);
-          if (endIndex !== -1) {
-            tokens.push({ type: 'comment', value: line.slice(i, endIndex + 2) });
-            i = endIndex + 2;
-            continue;
-          }
-        }
-        
-        // Check for strings
-        const quote = line[i];
-        if (quote === '"' || quote === "'" || quote === '`') {
-          let j = i + 1;
-          while (j < line.length) {
-            if (line[j] === quote && line[j - 1] !== '\\') {
-              break;
-            }
-            j++;
-          }
-          tokens.push({ type: 'string', value: line.slice(i, j + 1) });
-          i = j + 1;
-          continue;
-        }
-        
-        // Check for numbers
-        if (/\d/.test(line[i])) {
-          let j = i;
-          while (j < line.length && /[\d.]/.test(line[j])) {
-            j++;
-          }
-          tokens.push({ type: 'number', value: line.slice(i, j) });
-          i = j;
-          continue;
-        }
-        
-        // Check for identifiers (words)
-        if (/[a-zA-Z_$]/.test(line[i])) {
-          let j = i;
-          while (j < line.length && /[a-zA-Z0-9_$]/.test(line[j])) {
-            j++;
-          }
-          const word = line.slice(i, j);
-          
-          // Check if it's followed by ( making it a function call
-          const nextNonSpace = line.slice(j).match(/^\s*\(/);
-          
-          // Check if it's a JSX component (starts with capital letter)
-          if (/^[A-Z]/.test(word)) {
-            tokens.push({ type: 'jsx', value: word });
-          } else if (keywords.has(word)) {
-            tokens.push({ type: 'keyword', value: word });
-          } else if (nextNonSpace) {
-            tokens.push({ type: 'function', value: word });
-          } else {
-            tokens.push({ type: 'plain', value: word });
-          }
-          i = j;
-          continue;
-        }
-        
-        // Check for JSX tags
-        if (line[i] === '<') {
-          // Could be JSX tag or comparison operator
-          const match = line.slice(i).match(/^<\/?([A-Z][a-zA-Z0-9]*)/);
-          if (match) {
-            tokens.push({ type: 'jsx', value: match[0] });
-            i += match[0].length;
-            continue;
-          }
-        }
-        
-        // Plain character
-        tokens.push({ type: 'plain', value: line[i] });
-        i++;
-      }
-      
-      return tokens;
-    });
-  }, [code]);
+  const { lines, markers } = useMemo(() => {
+    // `diff-tsx` is a diff whose lines are highlighted as TSX
+    const diffLanguage = language.match(/^diff(?:-(.+))?$/);
+    const isDiff = diff ?? (diffLanguage !== null || looksLikeDiff(code));
+    const parsed = isDiff ? parseDiff(code) : { code, markers: null };
+    const codeLanguage = diffLanguage ? diffLanguage[1] ?? 'typescript' : language;
+    return { lines: highlightCode(parsed.code, codeLanguage), markers: parsed.markers };
+  }, [code, language, diff]);
   
-  const getTokenClass = (type: TokenType): string => {
-    switch (type) {
-      case 'keyword': return 'text-purple-400';
-      case 'string': return 'text-emerald-400';
-      case 'comment': return 'text-gray-500 italic';
-      case 'number': return 'text-amber-400';
-      case 'function': return 'text-blue-400';
-      case 'jsx': return 'text-cyan-400';
-      default: return '';
-    }
-  };
+  const highlighted = new Set(highlightLines);
   
   return (
     <div className="relative group">
@@ -159,21 +68,38 @@ export function CodeBlock({ code, language = 'typescript' }: CodeBlockProps) {
       
       <pre className="code-block overflow-x-auto scrollbar-thin">
         <code className="text-sm leading-relaxed">
-          {highlightedCode.map((lineTokens, lineIndex) => (
-            <div key={lineIndex}>
-              {lineTokens.map((token, tokenIndex) => {
-                const className = getTokenClass(token.type);
-                // React automatically escapes text content - no need for manual escaping
-                return className ? (
-                  <span key={tokenIndex} className={className}>
-                    {token.value}
+          {lines.map((lineTokens, lineIndex) => {
+            const marker = markers?.[lineIndex] ?? ' ';
+            return (
+              <div
+                key={lineIndex}
+                className={`-mx-4 pl-3.5 pr-4 border-l-2 ${
+                  highlighted.has(lineIndex + 1) ? 'bg-primary/15 border-primary' : `border-transparent ${diffClasses[marker]}`
+                }`}
+              >
+                {markers && (
+                  <span
+                    className={`inline-block w-4 select-none ${marker === '+' ? 'text-emerald-400' : 'text-rose-400'}`}
+                    aria-hidden
+                  >
+                    {marker.trim()}
                   </span>
-                ) : (
-                  <span key={tokenIndex}>{token.value}</span>
-                );
-              })}
-            </div>
-          ))}
+                )}
+                {lineTokens.map((token, tokenIndex) => {
+                  const className = tokenClasses[token.type];
+                  // React escapes text content, so code is never interpreted as HTML
+                  return className ? (
+                    <span key={tokenIndex} className={className}>
+                      {token.value}
+                    </span>
+                  ) : (
+                    <span key={tokenIndex}>{token.value}</span>
+                  );
+                })}
+                {lineTokens.length === 0 && '\n'}
+              </div>
+            );
+          })}
         </code>
       </pre>
     </div>
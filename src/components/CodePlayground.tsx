@@ -1,18 +1,81 @@
 'use client';
 
-import { Sandpack } from '@codesandbox/sandpack-react';
+import { useEffect, useState } from 'react';
+import {
+  SandpackProvider,
+  SandpackLayout,
+  SandpackCodeEditor,
+  SandpackPreview,
+  SandpackTests,
+  useActiveCode,
+} from '@codesandbox/sandpack-react';
+import { CodeTest } from '@/data/types';
+import { isSandpackBundlerReachable } from '@/lib/playground/bundler';
+import { TEST_FILE_PATH, TestRunResult, buildTestFile } from '@/lib/playground/tests';
+import { LocalRunner } from './LocalRunner';
+
+// Matches the React version the app itself ships
+export const DEFAULT_REACT_VERSION = '^19.2.0';
+
+// 'auto' uses Sandpack when its bundler is reachable and the offline runner otherwise
+export type PlaygroundRunner = 'auto' | 'sandpack' | 'local';
+
+const PANEL_HEIGHT = 400;
 
 interface CodePlaygroundProps {
-  code: string;
+  code: string; // Initial contents of /App.tsx; later edits stay inside the sandbox
   title?: string;
+  tests?: CodeTest[];
+  reactVersion?: string; // Ignored by the offline runner, which always uses the app's React
+  runner?: PlaygroundRunner;
+  readOnly?: boolean;
+  onCodeChange?: (code: string) => void;
+  onTestsComplete?: (result: TestRunResult) => void;
 }
 
-export function CodePlayground({ code, title }: CodePlaygroundProps) {
-  // Parse the code to extract setup if needed
+type SpecLike = {
+  tests: Record<string, { name: string; blocks: string[]; status: string }>;
+  describes: Record<string, SpecLike>;
+};
+
+export function CodePlayground({
+  code,
+  title,
+  tests,
+  reactVersion = DEFAULT_REACT_VERSION,
+  runner = 'auto',
+  readOnly = false,
+  onCodeChange,
+  onTestsComplete,
+}: CodePlaygroundProps) {
+  // Sandpack restarts when its files change, so only the first code value seeds it
+  const [initialCode] = useState(code || defaultCode);
+  const hasTests = !!tests && tests.length > 0;
+  const [resolvedRunner, setResolvedRunner] = useState<'sandpack' | 'local' | null>(null);
+  const activeRunner = runner === 'auto' ? resolvedRunner : runner;
+
+  useEffect(() => {
+    if (runner !== 'auto') return;
+    let cancelled = false;
+    isSandpackBundlerReachable().then(reachable => {
+      if (!cancelled) setResolvedRunner(reachable ? 'sandpack' : 'local');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [runner]);
+
   const files = {
-    '/App.tsx': code || defaultCode,
+    '/App.tsx': initialCode,
+    ...(tests && hasTests ? { [TEST_FILE_PATH]: { code: buildTestFile(tests), hidden: true } } : {}),
   };
-  
+
+  const handleComplete = (specs: Record<string, SpecLike>) => {
+    const result: TestRunResult = { passed: [], failed: [] };
+    Object.values(specs).forEach(spec => collectResults(spec, result));
+    onTestsComplete?.(result);
+  };
+
   return (
     <div className="rounded-xl overflow-hidden border border-border">
       {title && (
@@ -20,30 +83,69 @@ export function CodePlayground({ code, title }: CodePlaygroundProps) {
           <span className="text-sm font-medium">{title}</span>
         </div>
       )}
-      <Sandpack
+      <SandpackProvider
         template="react-ts"
         theme="dark"
         files={files}
         options={{
-          showNavigator: false,
-          showTabs: false,
-          showLineNumbers: true,
-          editorHeight: 400,
           classes: {
             'sp-wrapper': 'custom-sandpack',
           },
         }}
         customSetup={{
           dependencies: {
-            'react': '^18.2.0',
-            'react-dom': '^18.2.0',
+            'react': reactVersion,
+            'react-dom': reactVersion,
+            ...(hasTests ? { '@testing-library/react': '^16.0.0', '@testing-library/dom': '^10.0.0' } : {}),
           },
         }}
-      />
+      >
+        <SandpackLayout>
+          <SandpackCodeEditor showLineNumbers readOnly={readOnly} style={{ height: PANEL_HEIGHT }} />
+          {activeRunner === null ? (
+            <div
+              className="flex flex-1 items-center justify-center text-sm text-muted-foreground"
+              style={{ height: PANEL_HEIGHT }}
+            >
+              Connecting to the sandbox...
+            </div>
+          ) : activeRunner === 'local' ? (
+            <LocalRunner hasTests={hasTests} onTestsComplete={onTestsComplete} height={PANEL_HEIGHT} />
+          ) : hasTests ? (
+            <SandpackTests
+              onComplete={handleComplete}
+              showWatchButton={false}
+              style={{ height: PANEL_HEIGHT }}
+            />
+          ) : (
+            <SandpackPreview showNavigator={false} style={{ height: PANEL_HEIGHT }} />
+          )}
+        </SandpackLayout>
+        {onCodeChange && <CodeChangeListener onChange={onCodeChange} />}
+      </SandpackProvider>
     </div>
   );
 }
 
+function CodeChangeListener({ onChange }: { onChange: (code: string) => void }) {
+  const { code } = useActiveCode();
+
+  useEffect(() => {
+    onChange(code);
+  }, [code, onChange]);
+
+  return null;
+}
+
+function collectResults(spec: SpecLike, result: TestRunResult) {
+  Object.values(spec.tests).forEach(test => {
+    const name = [...test.blocks, test.name].join(' › ');
+    if (test.status === 'pass') result.passed.push(name);
+    else if (test.status === 'fail') result.failed.push(name);
+  });
+  Object.values(spec.describes).forEach(describe => collectResults(describe, result));
+}
+
 const defaultCode = `import React, { useState } from 'react';
 
 export default function App() {
@@ -0,0 +1,23 @@
+'use client';
+
+import { Difficulty } from '@/data/types';
+
+interface DifficultyBadgeProps {
+  difficulty: Difficulty;
+  size?: 'sm' | 'md';
+}
+
+const difficultyClasses: Record<Difficulty, string> = {
+  beginner: 'bg-emerald-500/20 text-emerald-400',
+  intermediate: 'bg-blue-500/20 text-blue-400',
+  senior: 'bg-purple-500/20 text-purple-400',
+  expert: 'bg-rose-500/20 text-rose-400',
+};
+
+export function DifficultyBadge({ difficulty, size = 'md' }: DifficultyBadgeProps) {
+  return (
+    <span className={`${size === 'sm' ? 'px-2' : 'px-3'} py-1 rounded-full text-xs font-medium ${difficultyClasses[difficulty]}`}>
+      {difficulty}
+    </span>
+  );
+}
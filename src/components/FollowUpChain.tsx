@@ -0,0 +1,162 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { MessageSquare, Send, Loader2, ChevronRight } from 'lucide-react';
+import { Question } from '@/data/types';
+import { SessionResult, usePracticeStore } from '@/store/practice-store';
+import { requestGrade } from '@/lib/grading/client';
+import { GradeFeedback } from './GradeFeedback';
+import { Markdown } from './Markdown';
+
+interface FollowUpChainProps {
+  question: Question;
+  result: SessionResult;
+}
+
+const selfGrades = [
+  { score: 0.25, label: 'Needs Work' },
+  { score: 0.5, label: 'Partial' },
+  { score: 0.75, label: 'Good' },
+  { score: 1, label: 'Excellent' },
+];
+
+// Asks the question's follow-ups one at a time, the way an interviewer drills down
+export function FollowUpChain({ question, result }: FollowUpChainProps) {
+  const { submitFollowUp, gradeFollowUp } = usePracticeStore();
+  const prompts = question.followUp ?? [];
+  const references = question.followUpAnswers ?? [];
+  const answered = result.followUps ?? [];
+  const [isOpen, setIsOpen] = useState(answered.length > 0);
+  const [answer, setAnswer] = useState('');
+  const [startTime, setStartTime] = useState(() => Date.now());
+  const [gradingIndex, setGradingIndex] = useState<number | null>(null);
+  const [gradeError, setGradeError] = useState<string | null>(null);
+
+  if (prompts.length === 0) return null;
+
+  const nextIndex = prompts.findIndex((_, index) => !answered.some(f => f.index === index));
+
+  const open = () => {
+    setIsOpen(true);
+    setStartTime(Date.now());
+  };
+
+  const referenceFor = (index: number) => references[index]?.trim() || undefined;
+
+  // Each follow-up is graded against its own reference answer; the parent question is context only
+  const handleSubmit = async () => {
+    const index = nextIndex;
+    const userAnswer = answer;
+    submitFollowUp(question.id, index, userAnswer, Math.floor((Date.now() - startTime) / 1000));
+    setAnswer('');
+    setStartTime(Date.now());
+    setGradeError(null);
+
+    const reference = referenceFor(index);
+    if (!reference) return;
+    setGradingIndex(index);
+
+    try {
+      const grade = await requestGrade({
+        question: `${question.question}\n\nFollow-up: ${prompts[index]}`,
+        userAnswer,
+        correctAnswer: reference,
+      });
+      gradeFollowUp(question.id, index, grade.score, grade.feedback, {
+        source: 'auto',
+        engine: grade.engine,
+        strengths: grade.strengths,
+        improvements: grade.improvements,
+      });
+    } catch (error) {
+      console.error('Grading error:', error);
+      setGradeError('Automatic grading is unavailable. Grade your follow-up below.');
+    } finally {
+      setGradingIndex(null);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={open}
+        className="flex items-center gap-2 w-full p-4 rounded-lg bg-muted/50 hover:bg-muted text-sm text-left transition-colors"
+      >
+        <MessageSquare className="w-4 h-4 text-primary" />
+        <span className="flex-1">The interviewer has {prompts.length} follow-up {prompts.length === 1 ? 'question' : 'questions'}</span>
+        <ChevronRight className="w-4 h-4" />
+      </button>
+    );
+  }
+
+  return (
+    <div className="p-4 rounded-lg bg-muted/50 space-y-4">
+      <h3 className="flex items-center gap-2 font-medium">
+        <MessageSquare className="w-4 h-4 text-primary" />
+        Follow-ups ({answered.length}/{prompts.length})
+      </h3>
+
+      {[...answered].sort((a, b) => a.index - b.index).map((followUp) => (
+        <motion.div
+          key={followUp.index}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-2 pl-3 border-l-2 border-primary/40"
+        >
+          <p className="text-sm font-medium">{followUp.prompt}</p>
+          <Markdown text={followUp.userAnswer} className="text-sm text-muted-foreground" />
+          {!referenceFor(followUp.index) ? (
+            <p className="text-xs text-muted-foreground italic">Not graded: this follow-up has no reference answer.</p>
+          ) : gradingIndex === followUp.index ? (
+            <p className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Grading...
+            </p>
+          ) : (
+            <>
+              <GradeFeedback result={followUp} compact />
+              <div className="flex flex-wrap gap-1">
+                {selfGrades.map(({ score, label }) => (
+                  <button
+                    key={score}
+                    onClick={() => gradeFollowUp(question.id, followUp.index, score, 'Self-graded follow-up.', { source: 'self' })}
+                    className={`px-2 py-1 rounded-md text-xs transition-colors ${
+                      followUp.selfScore === score ? 'bg-primary text-white' : 'bg-muted hover:bg-muted/80'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </motion.div>
+      ))}
+
+      {gradeError && <p className="text-sm text-amber-400">{gradeError}</p>}
+
+      {nextIndex !== -1 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">{prompts[nextIndex]}</p>
+          <textarea
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder="Answer the follow-up..."
+            className="w-full h-24 p-3 rounded-lg bg-muted/50 border border-border focus:border-primary outline-none resize-none text-sm"
+          />
+          <div className="flex justify-end">
+            <button
+              onClick={handleSubmit}
+              disabled={!answer.trim() || gradingIndex !== null}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-white text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              Answer Follow-up
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
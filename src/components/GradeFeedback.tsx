@@ -0,0 +1,95 @@
+'use client';
+
+import { CheckCircle, AlertCircle, Sparkles, User, Check, X } from 'lucide-react';
+import { GradedFields } from '@/store/practice-store';
+import { Markdown } from './Markdown';
+
+interface GradeFeedbackProps {
+  result: GradedFields;
+  compact?: boolean;
+}
+
+export function GradeFeedback({ result, compact = false }: GradeFeedbackProps) {
+  const strengths = result.strengths ?? [];
+  const improvements = result.improvements ?? [];
+
+  if (result.autoScore === undefined && result.selfScore === undefined) {
+    return null;
+  }
+
+  const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+
+  return (
+    <div className={compact ? 'space-y-2 text-xs' : 'p-4 rounded-lg bg-muted/50 space-y-3 text-sm'}>
+      {/* Scores */}
+      <div className="flex flex-wrap gap-2">
+        {result.autoScore !== undefined && (
+          <span className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-indigo-500/20 text-indigo-300">
+            <Sparkles className="w-3 h-3" />
+            Auto{result.gradedBy ? ` (${result.gradedBy})` : ''} {formatScore(result.autoScore)}
+          </span>
+        )}
+        {result.selfScore !== undefined && (
+          <span className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-purple-500/20 text-purple-300">
+            <User className="w-3 h-3" />
+            Self {formatScore(result.selfScore)}
+          </span>
+        )}
+      </div>
+
+      {!compact && result.feedback && (
+        <Markdown text={result.feedback} className="text-foreground" />
+      )}
+
+      {/* Rubric Breakdown */}
+      {!compact && result.breakdown && result.breakdown.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Rubric</h4>
+          <ul className="space-y-1">
+            {result.breakdown.map((criterion) => (
+              <li
+                key={`${criterion.kind}-${criterion.id}`}
+                className={`flex items-center gap-2 ${criterion.met ? 'text-emerald-400' : 'text-rose-400'}`}
+              >
+                {criterion.met ? <Check className="w-4 h-4 shrink-0" /> : <X className="w-4 h-4 shrink-0" />}
+                <span className="flex-1">
+                  {criterion.kind === 'misconception'
+                    ? `${criterion.met ? 'Avoided' : 'Misconception'}: ${criterion.label}`
+                    : criterion.label}
+                  {criterion.kind === 'code' && <span className="text-muted-foreground"> (code)</span>}
+                </span>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {criterion.kind === 'misconception'
+                    ? (criterion.met ? '—' : `${Math.round(criterion.points * 100)}%`)
+                    : `${Math.round(criterion.points * 100)}/${Math.round(criterion.maxPoints * 100)}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      
+      {strengths.length > 0 && (
+        <ul className="space-y-1">
+          {strengths.map((strength) => (
+            <li key={strength} className="flex items-start gap-2 text-emerald-400">
+              <CheckCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{strength}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {improvements.length > 0 && (
+        <ul className="space-y-1">
+          {improvements.map((improvement) => (
+            <li key={improvement} className="flex items-start gap-2 text-amber-400">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{improvement}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
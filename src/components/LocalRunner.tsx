@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useActiveCode, useSandpack } from '@codesandbox/sandpack-react';
+import { transpile } from '@/lib/playground/transpile';
+import { RunnerRequest, RunnerResponse } from '@/lib/playground/runner';
+import { TEST_FILE_PATH, TestRunResult } from '@/lib/playground/tests';
+
+interface LocalRunnerProps {
+  hasTests: boolean;
+  onTestsComplete?: (result: TestRunResult) => void;
+  height: number;
+}
+
+// Offline replacement for SandpackPreview/SandpackTests: TSX is transpiled in a worker
+// and evaluated in a sandboxed iframe that bundles the app's own React
+export function LocalRunner({ hasTests, onTestsComplete, height }: LocalRunnerProps) {
+  const { code } = useActiveCode();
+  const { sandpack } = useSandpack();
+  const testCode = sandpack.files[TEST_FILE_PATH]?.code;
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const requestRef = useRef<RunnerRequest | null>(null);
+  const [runId, setRunId] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounced so each keystroke doesn't reload the iframe
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const [app, tests] = await Promise.all([
+          transpile(code, '/App.tsx'),
+          hasTests && testCode ? transpile(testCode, TEST_FILE_PATH) : Promise.resolve(null),
+        ]);
+        if (cancelled) return;
+        requestRef.current = { type: 'run', app, tests };
+        setError(null);
+        setRunId(id => id + 1);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+        if (hasTests) onTestsComplete?.({ passed: [], failed: [] });
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, testCode, hasTests, onTestsComplete]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent<RunnerResponse>) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+
+      if (event.data.type === 'ready' && requestRef.current) {
+        iframeRef.current?.contentWindow?.postMessage(requestRef.current, '*');
+      } else if (event.data.type === 'tests') {
+        onTestsComplete?.(event.data.result);
+      } else if (event.data.type === 'error' && hasTests) {
+        onTestsComplete?.({ passed: [], failed: [] });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [hasTests, onTestsComplete]);
+
+  return (
+    <div className="relative flex-1 min-w-0 bg-white" style={{ height }}>
+      {runId > 0 && (
+        // A fresh iframe per run drops timers and state left over from the previous code
+        <iframe
+          key={runId}
+          ref={iframeRef}
+          src="/playground-runner"
+          sandbox="allow-scripts"
+          title="Offline preview"
+          className="w-full h-full border-0"
+        />
+      )}
+      {error && (
+        <pre className="absolute inset-x-0 bottom-0 max-h-1/2 overflow-auto p-3 bg-rose-950/90 text-rose-200 text-xs whitespace-pre-wrap">
+          {error}
+        </pre>
+      )}
+    </div>
+  );
+}
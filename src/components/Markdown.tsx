@@ -0,0 +1,103 @@
+'use client';
+
+import { ReactNode, useMemo } from 'react';
+import { BlockNode, InlineNode, parseInline, parseMarkdown } from '@/lib/markdown';
+import { CodeBlock } from './CodeBlock';
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+const headingClasses = ['text-lg font-bold', 'text-base font-bold', 'font-semibold', 'font-semibold', 'font-medium', 'font-medium'];
+
+// Renders Markdown as React elements only; HTML in the text shows up as text and is never parsed
+export function Markdown({ text, className = '' }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={`space-y-3 break-words ${className}`}>{renderBlocks(blocks)}</div>;
+}
+
+// For one-line contexts such as question titles: code spans, emphasis and links, no blocks
+export function InlineMarkdown({ text }: { text: string }) {
+  const nodes = useMemo(() => parseInline(text), [text]);
+  return <>{renderInline(nodes)}</>;
+}
+
+function renderBlocks(blocks: BlockNode[]): ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={i}>{renderInline(block.children)}</p>;
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+        return <Tag key={i} className={headingClasses[block.level - 1]}>{renderInline(block.children)}</Tag>;
+      }
+      case 'code':
+        return <CodeBlock key={i} code={block.text} language={block.language} highlightLines={block.highlight} />;
+      case 'list': {
+        const items = block.items.map((item, j) => (
+          <li key={j} className="space-y-1 pl-1">{renderBlocks(item)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={i} start={block.start} className="list-decimal pl-6 space-y-1">{items}</ol>
+        ) : (
+          <ul key={i} className="list-disc pl-6 space-y-1">{items}</ul>
+        );
+      }
+      case 'blockquote':
+        return (
+          <blockquote key={i} className="pl-4 border-l-2 border-border text-muted-foreground space-y-3">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'table':
+        return (
+          <div key={i} className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, j) => (
+                    <th key={j} className="px-3 py-2 border-b border-border font-semibold">{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, j) => (
+                  <tr key={j}>
+                    {row.map((cell, k) => (
+                      <td key={k} className="px-3 py-2 border-b border-border/50">{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={i} className="border-border" />;
+    }
+  });
+}
+
+function renderInline(nodes: InlineNode[]): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return <code key={i} className="px-1.5 py-0.5 rounded bg-muted font-mono text-[0.9em]">{node.text}</code>;
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary hover:underline">
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={i} />;
+    }
+  });
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { ChevronUp, ChevronDown, X } from 'lucide-react';
+import { getQuestionById } from '@/data/questions';
+import { DifficultyBadge } from './DifficultyBadge';
+
+interface OrderedQuestionListProps {
+  questionIds: string[];
+  onChange: (questionIds: string[]) => void;
+}
+
+export function OrderedQuestionList({ questionIds, onChange }: OrderedQuestionListProps) {
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= questionIds.length) return;
+    const next = [...questionIds];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+  
+  const remove = (index: number) => {
+    onChange(questionIds.filter((_, i) => i !== index));
+  };
+  
+  if (questionIds.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No questions picked yet.</p>
+    );
+  }
+  
+  return (
+    <ol className="space-y-2">
+      {questionIds.map((id, index) => {
+        const question = getQuestionById(id);
+        
+        return (
+          <li key={id} className="flex items-start gap-2 p-2 rounded-lg bg-muted/50 text-sm">
+            <span className="w-5 text-right text-muted-foreground shrink-0">{index + 1}.</span>
+            <div className="flex-1 min-w-0">
+              <p className={`line-clamp-2 ${question ? '' : 'text-rose-400'}`}>
+                {question ? question.question : `Unknown question "${id}"`}
+              </p>
+              {question && (
+                <div className="mt-1">
+                  <DifficultyBadge difficulty={question.difficulty} size="sm" />
+                </div>
+              )}
+            </div>
+            <div className="flex flex-col shrink-0">
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-0.5 rounded hover:bg-white/10 disabled:opacity-30"
+                title="Move up"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === questionIds.length - 1}
+                className="p-0.5 rounded hover:bg-white/10 disabled:opacity-30"
+                title="Move down"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </div>
+            <button
+              onClick={() => remove(index)}
+              className="p-1 rounded hover:bg-white/10 shrink-0"
+              title="Remove"
+            >
+              <X className="w-4 h-4 text-muted-foreground" />
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
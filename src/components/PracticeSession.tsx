@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Clock, 
@@ -16,10 +16,38 @@ import {
   Trophy,
   RotateCcw,
   Circle,
-  CheckCircle2
+  CheckCircle2,
+  Loader2,
+  Crosshair,
+  Briefcase,
+  Timer,
+  MessageSquare,
+  ListChecks,
+  PenLine,
+  Repeat
 } from 'lucide-react';
-import { usePracticeStore } from '@/store/practice-store';
+import { FollowUpResult, usePracticeStore, getSessionLength, getTimeRemaining, estimateTimeLimit } from '@/store/practice-store';
+import { gradeQuestion } from '@/lib/grading/client';
+import { TestRunResult } from '@/lib/playground/tests';
+import { buildScorecard, getQuestionTimeBudget, isTimedOut, recommendationLabels, HiringRecommendation } from '@/lib/mock-interview';
+import { getMissedQuestionIds } from '@/lib/answer-review';
+import {
+  decodeAnswerList,
+  describeAnswer,
+  describeExpectedAnswer,
+  encodeAnswerList,
+  gradeStructuredAnswer,
+  initialStepOrder,
+  isStructuredFormat,
+} from '@/lib/answer-formats';
 import { CodeBlock } from './CodeBlock';
+import { Markdown, InlineMarkdown } from './Markdown';
+import { GradeFeedback } from './GradeFeedback';
+import { DifficultyBadge } from './DifficultyBadge';
+import { CodePlayground } from './CodePlayground';
+import { FollowUpChain } from './FollowUpChain';
+import { SessionReview } from './SessionReview';
+import { StructuredAnswerInput } from './StructuredAnswerInput';
 import { MultipleChoiceOption } from '@/data/types';
 
 export function PracticeSession() {
@@ -30,67 +58,137 @@ export function PracticeSession() {
     nextQuestion, 
     previousQuestion, 
     endSession,
-    resetSession 
+    resetSession,
+    saveProgress,
+    answerDraft
   } = usePracticeStore();
   
   const [answer, setAnswer] = useState('');
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [showAnswer, setShowAnswer] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
-  const [timeRemaining, setTimeRemaining] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
   const [questionStartTime, setQuestionStartTime] = useState(Date.now());
   const [selfGrade, setSelfGrade] = useState<number | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradeError, setGradeError] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<TestRunResult | null>(null);
+  const [questionTimeLeft, setQuestionTimeLeft] = useState(0);
+  const autoSubmitRef = useRef<() => void>(() => {});
   
-  useEffect(() => {
-    if (currentSession) {
-      setTimeRemaining(currentSession.timeLimit * 60);
-    }
-  }, [currentSession?.id]);
+  const isMock = currentSession?.mode === 'mock';
+  const isRunning = !!currentSession && !currentSession.isComplete;
+  const activeQuestion = currentSession?.questions[currentSession.currentIndex];
+  const timeRemaining = currentSession ? getTimeRemaining(currentSession, now) : 0;
   
+  // The interval only re-renders; the time left is worked out from the session's timestamps
   useEffect(() => {
-    if (!currentSession || currentSession.isComplete) return;
-    
-    const timer = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 0) {
-          endSession();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    if (!isRunning) return;
     
+    const timer = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(timer);
-  }, [currentSession, endSession]);
+  }, [isRunning]);
+  
+  // Mock interviews are bounded by the per-question timers instead
+  useEffect(() => {
+    if (isRunning && !isMock && timeRemaining === 0) {
+      endSession();
+    }
+  }, [isRunning, isMock, timeRemaining, endSession]);
   
   useEffect(() => {
     if (currentSession && !currentSession.isComplete) {
       // Check if this question was already answered
       const currentQuestion = currentSession.questions[currentSession.currentIndex];
       const existingResult = currentSession.results.find(r => r.questionId === currentQuestion.id);
+      // Work in progress saved before a reload
+      const { answerDraft } = usePracticeStore.getState();
+      const draft = answerDraft?.sessionId === currentSession.id && answerDraft.questionId === currentQuestion.id
+        ? answerDraft
+        : null;
+      const timeUsed = existingResult?.timeTaken ?? Math.floor((draft?.questionTimeUsed ?? 0) / 1000);
       
       if (existingResult) {
         setAnswer(existingResult.userAnswer);
         setSelectedOption(existingResult.userAnswer);
         setShowAnswer(true);
         setHasSubmitted(true);
-        setSelfGrade(existingResult.score);
+        setSelfGrade(
+          currentQuestion.answerFormat === 'multiple-choice'
+            ? existingResult.score
+            : existingResult.selfScore ?? null
+        );
       } else {
-        setAnswer('');
-        setSelectedOption(null);
+        setAnswer(draft?.answer ?? '');
+        setSelectedOption(draft?.selectedOption ?? null);
         setShowAnswer(false);
+        setIsPreviewing(false);
         setHasSubmitted(false);
         setSelfGrade(null);
+        setGradeError(null);
+        setTestResult(null);
       }
-      setQuestionStartTime(Date.now());
+      setQuestionStartTime(Date.now() - (existingResult ? 0 : draft?.questionTimeUsed ?? 0));
+      setQuestionTimeLeft(Math.max(0, getQuestionTimeBudget(currentQuestion) - timeUsed));
     }
   }, [currentSession?.currentIndex, currentSession?.results, currentSession?.questions, currentSession?.isComplete]);
   
+  // Keeps the unsaved answer and the session clock in storage so a reload can resume
+  const activeQuestionId = activeQuestion?.id;
+  useEffect(() => {
+    if (!isRunning || !activeQuestionId) return;
+    
+    const save = () => saveProgress(hasSubmitted ? null : {
+      questionId: activeQuestionId,
+      answer,
+      selectedOption,
+      questionTimeUsed: Date.now() - questionStartTime,
+    });
+    const debounce = setTimeout(save, 500);
+    const checkpoint = setInterval(save, 5000);
+    window.addEventListener('pagehide', save);
+    
+    return () => {
+      clearTimeout(debounce);
+      clearInterval(checkpoint);
+      window.removeEventListener('pagehide', save);
+    };
+  }, [isRunning, activeQuestionId, hasSubmitted, answer, selectedOption, questionStartTime, saveProgress]);
+  
+  // Mock interviews submit whatever has been written once the question's budget runs out
+  useEffect(() => {
+    if (!isMock || !activeQuestion || hasSubmitted) return;
+    
+    const deadline = questionStartTime + getQuestionTimeBudget(activeQuestion) * 1000;
+    const timer = setInterval(() => {
+      const left = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+      setQuestionTimeLeft(left);
+      if (left === 0) autoSubmitRef.current();
+    }, 1000);
+    
+    return () => clearInterval(timer);
+  }, [isMock, activeQuestion, hasSubmitted, questionStartTime]);
+  
+  // The render below returns early without a session, before handleSubmit exists
+  useEffect(() => {
+    if (currentSession && !currentSession.isComplete) {
+      autoSubmitRef.current = () => handleSubmit(true);
+    }
+  });
+  
   if (!currentSession) return null;
   
   const currentQuestion = currentSession.questions[currentSession.currentIndex];
-  const progress = ((currentSession.currentIndex + 1) / currentSession.questions.length) * 100;
-  const isLastQuestion = currentSession.currentIndex === currentSession.questions.length - 1;
+  const currentResult = currentSession.results.find(r => r.questionId === currentQuestion.id);
+  const isGraded = selfGrade !== null || currentResult?.autoScore !== undefined;
+  const isCoding = currentQuestion.type === 'coding' && currentQuestion.answerFormat === 'essay';
+  const codeTests = isCoding ? currentQuestion.tests ?? [] : [];
+  const isStructured = isStructuredFormat(currentQuestion.answerFormat);
+  const codeDraft = answerDraft?.questionId === currentQuestion.id ? answerDraft.answer : undefined;
+  const sessionLength = getSessionLength(currentSession);
+  const progress = ((currentSession.currentIndex + 1) / sessionLength) * 100;
+  const isLastQuestion = currentSession.currentIndex === sessionLength - 1;
   
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -98,14 +196,20 @@ export function PracticeSession() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
   
-  const handleSubmit = () => {
-    const timeTaken = Math.floor((Date.now() - questionStartTime) / 1000);
+  const handleSubmit = (timedOut = false) => {
+    const budget = getQuestionTimeBudget(currentQuestion);
+    const elapsed = Math.floor((Date.now() - questionStartTime) / 1000);
+    const timeTaken = isMock ? (timedOut ? budget : Math.min(elapsed, budget)) : elapsed;
     const isMultipleChoice = currentQuestion.answerFormat === 'multiple-choice';
-    const submittedAnswer = isMultipleChoice ? (selectedOption || '') : answer;
+    const submittedAnswer = isMultipleChoice
+      ? (selectedOption || '')
+      : currentQuestion.answerFormat === 'ordering' && !answer
+        ? encodeAnswerList(initialStepOrder(currentQuestion)) // Submitted as first shown
+        : answer;
     
     submitAnswer(submittedAnswer, timeTaken);
     setHasSubmitted(true);
-    setShowAnswer(true);
+    setShowAnswer(!isMock);
     
     // Auto-grade multiple choice questions
     if (isMultipleChoice && currentQuestion.options) {
@@ -113,9 +217,61 @@ export function PracticeSession() {
       const score = selectedOptionObj?.isCorrect ? 1 : 0;
       const feedback = selectedOptionObj?.isCorrect 
         ? 'Correct! Well done.'
-        : 'Incorrect. Review the correct answer above.';
+        : selectedOptionObj ? 'Incorrect. Review the correct answer above.' : 'Time ran out before an option was chosen.';
       setSelfGrade(score);
       gradeAnswer(currentQuestion.id, score, feedback);
+    } else if (codeTests.length > 0) {
+      gradeTests(testResult ?? { passed: [], failed: [] });
+    } else if (isStructured) {
+      const grade = gradeStructuredAnswer(currentQuestion, submittedAnswer);
+      gradeAnswer(currentQuestion.id, grade.score, grade.feedback, {
+        source: 'auto',
+        engine: 'answer-key',
+        strengths: grade.strengths,
+        improvements: grade.improvements,
+      });
+    } else if (!submittedAnswer.trim()) {
+      // Only reachable when a mock interview question times out
+      gradeAnswer(currentQuestion.id, 0, 'Time ran out before an answer was written.');
+    } else {
+      gradeEssay(submittedAnswer);
+    }
+  };
+  
+  // Coding questions with tests score by the share of tests passing in the playground
+  const gradeTests = (result: TestRunResult) => {
+    const passed = Math.min(result.passed.length, codeTests.length);
+    gradeAnswer(currentQuestion.id, passed / codeTests.length, `${passed}/${codeTests.length} tests passed`, {
+      source: 'auto',
+      engine: 'tests',
+      strengths: result.passed,
+      improvements: result.failed,
+    });
+  };
+  
+  // Essay answers are graded automatically (see lib/grading/client); self-grading stays available as an override
+  const gradeEssay = async (userAnswer: string) => {
+    // The user may end this session and start another while the grade is in flight
+    const sessionId = currentSession.id;
+    const isStale = () => usePracticeStore.getState().currentSession?.id !== sessionId;
+    setIsGrading(true);
+    setGradeError(null);
+    
+    try {
+      const grade = await gradeQuestion(currentQuestion, userAnswer);
+      if (isStale()) return;
+      gradeAnswer(currentQuestion.id, grade.score, grade.feedback, {
+        source: 'auto',
+        engine: grade.engine,
+        strengths: grade.strengths,
+        improvements: grade.improvements,
+        breakdown: grade.breakdown,
+      });
+    } catch (error) {
+      console.error('Grading error:', error);
+      if (!isStale()) setGradeError('Automatic grading is unavailable. Grade your answer below.');
+    } finally {
+      setIsGrading(false);
     }
   };
   
@@ -126,7 +282,7 @@ export function PracticeSession() {
       : score >= 0.5 
         ? 'Good effort! Review the answer for complete understanding.'
         : 'Keep practicing! Focus on the key concepts.';
-    gradeAnswer(currentQuestion.id, score, feedback);
+    gradeAnswer(currentQuestion.id, score, feedback, { source: 'self' });
   };
   
   const handleNext = () => {
@@ -139,7 +295,7 @@ export function PracticeSession() {
   
   // Show results when session is complete
   if (currentSession.isComplete) {
-    return <SessionResults />;
+    return isMock ? <MockDebrief /> : <SessionResults />;
   }
   
   return (
@@ -157,18 +313,31 @@ export function PracticeSession() {
           
           <div className="flex items-center gap-4">
             {/* Timer */}
-            <div className={`
-              flex items-center gap-2 px-4 py-2 rounded-lg font-mono text-lg
-              ${timeRemaining <= 60 ? 'bg-red-500/20 text-red-400 timer-pulse' : 'bg-muted'}
-            `}>
-              <Clock className="w-5 h-5" />
-              {formatTime(timeRemaining)}
-            </div>
+            {isMock ? (
+              <div
+                title="Time left for this question"
+                className={`
+                  flex items-center gap-2 px-4 py-2 rounded-lg font-mono text-lg
+                  ${hasSubmitted ? 'bg-muted opacity-50' : questionTimeLeft <= 30 ? 'bg-red-500/20 text-red-400 timer-pulse' : 'bg-muted'}
+                `}
+              >
+                <Timer className="w-5 h-5" />
+                {formatTime(questionTimeLeft)}
+              </div>
+            ) : (
+              <div className={`
+                flex items-center gap-2 px-4 py-2 rounded-lg font-mono text-lg
+                ${timeRemaining <= 60 ? 'bg-red-500/20 text-red-400 timer-pulse' : 'bg-muted'}
+              `}>
+                <Clock className="w-5 h-5" />
+                {formatTime(timeRemaining)}
+              </div>
+            )}
           </div>
           
           {/* Progress */}
           <div className="text-sm text-muted-foreground">
-            {currentSession.currentIndex + 1} / {currentSession.questions.length}
+            {currentSession.currentIndex + 1} / {sessionLength}
           </div>
         </div>
         
@@ -195,23 +364,23 @@ export function PracticeSession() {
             <span className="px-3 py-1 rounded-full text-xs font-medium bg-primary/20 text-primary">
               {currentQuestion.category}
             </span>
-            <span className={`
-              px-3 py-1 rounded-full text-xs font-medium
-              ${currentQuestion.difficulty === 'beginner' ? 'bg-emerald-500/20 text-emerald-400' : ''}
-              ${currentQuestion.difficulty === 'intermediate' ? 'bg-blue-500/20 text-blue-400' : ''}
-              ${currentQuestion.difficulty === 'senior' ? 'bg-purple-500/20 text-purple-400' : ''}
-              ${currentQuestion.difficulty === 'expert' ? 'bg-rose-500/20 text-rose-400' : ''}
-            `}>
-              {currentQuestion.difficulty}
-            </span>
+            <DifficultyBadge difficulty={currentQuestion.difficulty} />
             <span className="px-3 py-1 rounded-full text-xs font-medium bg-muted text-muted-foreground">
               ~{currentQuestion.timeEstimate} min
             </span>
           </div>
           
+          {/* Drill Reason */}
+          {currentSession.pickReasons?.[currentQuestion.id] && (
+            <p className="flex items-start gap-2 mb-4 text-sm text-muted-foreground">
+              <Crosshair className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+              {currentSession.pickReasons[currentQuestion.id]}
+            </p>
+          )}
+          
           {/* Question */}
           <h2 className="text-xl md:text-2xl font-semibold mb-6">
-            {currentQuestion.question}
+            <InlineMarkdown text={currentQuestion.question} />
           </h2>
           
           {/* Answer Input */}
@@ -223,8 +392,8 @@ export function PracticeSession() {
               <div className="space-y-3">
                 {currentQuestion.options.map((option: MultipleChoiceOption) => {
                   const isSelected = selectedOption === option.id;
-                  const showCorrect = hasSubmitted && option.isCorrect;
-                  const showIncorrect = hasSubmitted && isSelected && !option.isCorrect;
+                  const showCorrect = hasSubmitted && !isMock && option.isCorrect;
+                  const showIncorrect = hasSubmitted && !isMock && isSelected && !option.isCorrect;
                   
                   return (
                     <button
@@ -261,28 +430,103 @@ export function PracticeSession() {
                   );
                 })}
               </div>
-            ) : (
-              // Essay Text Area
-              <textarea
+            ) : isStructured ? (
+              <StructuredAnswerInput
+                question={currentQuestion}
                 value={answer}
-                onChange={(e) => setAnswer(e.target.value)}
-                placeholder="Type your answer here..."
+                onChange={setAnswer}
                 disabled={hasSubmitted}
-                className="w-full h-48 p-4 rounded-lg bg-muted/50 border border-border focus:border-primary focus:ring-1 focus:ring-primary outline-none resize-none transition-colors disabled:opacity-50"
+                revealed={hasSubmitted && !isMock}
               />
+            ) : isCoding ? (
+              // Code Editor
+              <div className="space-y-2">
+                <CodePlayground
+                  key={currentQuestion.id}
+                  code={currentResult?.userAnswer ?? codeDraft ?? currentQuestion.starterCode ?? ''}
+                  tests={codeTests}
+                  reactVersion={currentQuestion.reactVersion}
+                  readOnly={hasSubmitted}
+                  onCodeChange={setAnswer}
+                  onTestsComplete={setTestResult}
+                />
+                {codeTests.length > 0 && !hasSubmitted && (
+                  <p className="text-xs text-muted-foreground">
+                    {testResult
+                      ? `${testResult.passed.length}/${codeTests.length} tests passing`
+                      : 'Running tests...'}
+                  </p>
+                )}
+              </div>
+            ) : hasSubmitted || isPreviewing ? (
+              // Essay Preview - Markdown, as it appears in reviews
+              <div className="space-y-2">
+                <div className="min-h-48 p-4 rounded-lg bg-muted/50 border border-border text-sm">
+                  {answer.trim() ? <Markdown text={answer} /> : <span className="text-muted-foreground">Nothing written yet.</span>}
+                </div>
+                {!hasSubmitted && (
+                  <button
+                    onClick={() => setIsPreviewing(false)}
+                    className="flex items-center gap-2 text-sm text-primary hover:underline"
+                  >
+                    <PenLine className="w-4 h-4" />
+                    Edit
+                  </button>
+                )}
+              </div>
+            ) : (
+              // Essay Text Area
+              <div className="space-y-2">
+                <textarea
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  placeholder="Type your answer here... Markdown is supported."
+                  className="w-full h-48 p-4 rounded-lg bg-muted/50 border border-border focus:border-primary focus:ring-1 focus:ring-primary outline-none resize-none transition-colors"
+                />
+                <button
+                  onClick={() => setIsPreviewing(true)}
+                  className="flex items-center gap-2 text-sm text-primary hover:underline"
+                >
+                  <Eye className="w-4 h-4" />
+                  Preview
+                </button>
+              </div>
             )}
           </div>
           
           {/* Submit / Next Buttons */}
           {!hasSubmitted ? (
             <button
-              onClick={handleSubmit}
-              disabled={currentQuestion.answerFormat === 'multiple-choice' ? !selectedOption : !answer.trim()}
+              onClick={() => handleSubmit()}
+              disabled={
+                currentQuestion.answerFormat === 'multiple-choice'
+                  ? !selectedOption
+                  : isStructured
+                    ? currentQuestion.answerFormat !== 'ordering' && currentQuestion.answerFormat !== 'predict-output'
+                      && !decodeAnswerList(answer).some(value => value.trim())
+                    : !answer.trim() || (codeTests.length > 0 && !testResult)
+              }
               className="flex items-center justify-center gap-2 w-full py-4 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Send className="w-5 h-5" />
               Submit Answer
             </button>
+          ) : isMock ? (
+            // Mock interviews keep answers and grades hidden until the debrief
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 p-4 rounded-lg bg-muted/50 text-sm text-muted-foreground">
+                <Briefcase className="w-4 h-4 text-primary" />
+                {currentResult && isTimedOut(currentResult, currentQuestion) ? 'Time\'s up, your answer was submitted.' : 'Answer recorded.'}
+                {' '}Feedback comes in the debrief.
+              </div>
+              <button
+                onClick={handleNext}
+                className="flex items-center justify-center gap-2 w-full py-4 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold hover:opacity-90 transition-opacity"
+              >
+                {isLastQuestion ? 'Finish Interview' : 'Next Question'}
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
           ) : (
             <div className="space-y-4">
               {/* Show/Hide Answer Toggle - Only for essay questions */}
@@ -296,9 +540,9 @@ export function PracticeSession() {
                 </button>
               )}
               
-              {/* Correct Answer - Always shown for MCQ, toggleable for essay */}
+              {/* Correct Answer - Always shown for auto-graded formats, toggleable for essay */}
               <AnimatePresence>
-                {(showAnswer || currentQuestion.answerFormat === 'multiple-choice') && (
+                {(showAnswer || currentQuestion.answerFormat !== 'essay') && (
                   <motion.div
                     initial={{ opacity: 0, height: 0 }}
                     animate={{ opacity: 1, height: 'auto' }}
@@ -307,13 +551,11 @@ export function PracticeSession() {
                   >
                     <div className="p-4 rounded-lg bg-emerald-500/10 border border-emerald-500/20">
                       <h3 className="font-semibold text-emerald-400 mb-2">
-                        {currentQuestion.answerFormat === 'multiple-choice' ? 'Explanation:' : 'Expected Answer:'}
+                        {currentQuestion.answerFormat === 'essay' ? 'Expected Answer:' : 'Explanation:'}
                       </h3>
-                      <div className="text-sm text-foreground whitespace-pre-wrap">
-                        {currentQuestion.answer}
-                      </div>
+                      <Markdown text={currentQuestion.answer} className="text-sm text-foreground" />
                       
-                      {currentQuestion.codeExample && (
+                      {currentQuestion.codeExample && currentQuestion.answerFormat !== 'predict-output' && (
                         <div className="mt-4">
                           <h4 className="text-sm font-medium text-emerald-400 mb-2">Code Example:</h4>
                           <CodeBlock code={currentQuestion.codeExample} />
@@ -324,10 +566,30 @@ export function PracticeSession() {
                 )}
               </AnimatePresence>
               
+              {/* Automatic Grade Feedback - Essay and structured formats */}
+              {(currentQuestion.answerFormat === 'essay' || isStructured) && (
+                <>
+                  {isGrading && (
+                    <div className="flex items-center gap-2 p-4 rounded-lg bg-muted/50 text-sm text-muted-foreground">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Grading your answer...
+                    </div>
+                  )}
+                  {gradeError && (
+                    <div className="p-4 rounded-lg bg-amber-500/10 text-sm text-amber-400">
+                      {gradeError}
+                    </div>
+                  )}
+                  {currentResult && <GradeFeedback result={currentResult} />}
+                </>
+              )}
+              
               {/* Self Grading - Only for essay questions */}
               {currentQuestion.answerFormat === 'essay' && (
                 <div className="p-4 rounded-lg bg-muted/50">
-                  <h3 className="font-medium mb-3">How well did you answer?</h3>
+                  <h3 className="font-medium mb-3">
+                    {currentResult?.autoScore !== undefined ? 'Disagree with the grade? Grade yourself:' : 'How well did you answer?'}
+                  </h3>
                   <div className="flex gap-2">
                     {[
                       { score: 0.25, label: 'Needs Work', icon: XCircle, color: 'rose' },
@@ -376,8 +638,13 @@ export function PracticeSession() {
                 </motion.div>
               )}
               
+              {/* Follow-ups */}
+              {currentResult && isGraded && (
+                <FollowUpChain key={currentQuestion.id} question={currentQuestion} result={currentResult} />
+              )}
+              
               {/* Next Button */}
-              {selfGrade !== null && (
+              {isGraded && (
                 <motion.button
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -396,7 +663,8 @@ export function PracticeSession() {
         <div className="flex justify-between">
           <button
             onClick={previousQuestion}
-            disabled={currentSession.currentIndex === 0}
+            disabled={currentSession.currentIndex === 0 || isMock}
+            title={isMock ? 'Mock interviews don\'t allow going back' : undefined}
             className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-white/5 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
           >
             <ChevronLeft className="w-5 h-5" />
@@ -407,7 +675,7 @@ export function PracticeSession() {
             onClick={endSession}
             className="flex items-center gap-2 px-4 py-2 rounded-lg text-amber-400 hover:bg-amber-400/10 transition-colors"
           >
-            End Session Early
+            {isMock ? 'End Interview Early' : 'End Session Early'}
           </button>
         </div>
       </div>
@@ -415,12 +683,25 @@ export function PracticeSession() {
   );
 }
 
+// Follow-ups without a reference answer stay ungraded and are left out of the average
+function followUpAverage(followUps: FollowUpResult[]): string {
+  const graded = followUps.filter(f => f.autoScore !== undefined || f.selfScore !== undefined);
+  if (graded.length === 0) return '';
+  return `, ${Math.round(graded.reduce((sum, f) => sum + f.score, 0) / graded.length * 100)}% avg`;
+}
+
 function SessionResults() {
-  const { currentSession, resetSession } = usePracticeStore();
+  const { currentSession, resetSession, startSessionFromQuestions, replaySession } = usePracticeStore();
+  const [isReviewing, setIsReviewing] = useState(false);
   
   if (!currentSession) return null;
   
-  const totalQuestions = currentSession.questions.length;
+  if (isReviewing) {
+    return <SessionReview onBack={() => setIsReviewing(false)} />;
+  }
+  
+  const missedIds = getMissedQuestionIds(currentSession);
+  const totalQuestions = getSessionLength(currentSession);
   const answeredQuestions = currentSession.results.length;
   const averageScore = currentSession.totalScore;
   
@@ -442,7 +723,10 @@ function SessionResults() {
         </motion.div>
         
         <h1 className="text-3xl font-bold mb-2">Session Complete!</h1>
-        <p className="text-muted-foreground mb-8">{currentSession.categoryName}</p>
+        <p className="text-muted-foreground mb-8">
+          {currentSession.categoryName}
+          <SeedLabel seed={currentSession.seed} />
+        </p>
         
         {/* Score */}
         <div className="mb-8">
@@ -454,8 +738,23 @@ function SessionResults() {
           </p>
         </div>
         
+        {/* Difficulty Path - Only for adaptive sessions */}
+        {currentSession.adaptive && (
+          <div className="mb-8">
+            <h2 className="text-sm font-medium text-muted-foreground mb-3">Difficulty Path</h2>
+            <div className="flex flex-wrap items-center justify-center gap-1">
+              {currentSession.questions.map((question, index) => (
+                <div key={question.id} className="flex items-center gap-1">
+                  {index > 0 && <ChevronRight className="w-3 h-3 text-muted-foreground" />}
+                  <DifficultyBadge difficulty={question.difficulty} size="sm" />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
         {/* Results Summary */}
-        <div className="grid grid-cols-2 gap-4 mb-8">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-8">
           {currentSession.results.map((result, index) => (
             <div
               key={result.questionId}
@@ -474,13 +773,58 @@ function SessionResults() {
                 )}
                 <span className="text-sm font-medium">Q{index + 1}</span>
               </div>
-              <p className="text-xs text-muted-foreground line-clamp-1">
+              <p className="text-xs text-muted-foreground line-clamp-1 mb-2">
                 {result.question}
               </p>
+              <GradeFeedback result={result} compact />
+              {result.followUps && result.followUps.length > 0 && (
+                <p className="flex items-center gap-1 mt-2 text-xs text-muted-foreground">
+                  <MessageSquare className="w-3 h-3" />
+                  {result.followUps.length} follow-up{result.followUps.length === 1 ? '' : 's'}
+                  {followUpAverage(result.followUps)}
+                </p>
+              )}
             </div>
           ))}
         </div>
         
+        {/* Review */}
+        {(answeredQuestions > 0 || currentSession.seed !== undefined) && (
+          <div className="flex flex-col sm:flex-row gap-4 mb-4">
+            {answeredQuestions > 0 && (
+              <button
+                onClick={() => setIsReviewing(true)}
+                className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-muted hover:bg-muted/80 transition-colors"
+              >
+                <ListChecks className="w-5 h-5" />
+                Review Answers
+              </button>
+            )}
+            {missedIds.length > 0 && (
+              <button
+                onClick={() => startSessionFromQuestions(
+                  missedIds,
+                  `${currentSession.categoryName} (retry)`,
+                  estimateTimeLimit(currentSession.questions.filter(q => missedIds.includes(q.id)))
+                )}
+                className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-muted hover:bg-muted/80 transition-colors"
+              >
+                <RotateCcw className="w-5 h-5" />
+                Retry {missedIds.length} Missed
+              </button>
+            )}
+            {currentSession.seed !== undefined && (
+              <button
+                onClick={() => replaySession(currentSession)}
+                className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-muted hover:bg-muted/80 transition-colors"
+              >
+                <Repeat className="w-5 h-5" />
+                Replay Session
+              </button>
+            )}
+          </div>
+        )}
+        
         {/* Actions */}
         <div className="flex gap-4">
           <button
@@ -506,3 +850,180 @@ function SessionResults() {
   );
 }
 
+const recommendationClasses: Record<HiringRecommendation, string> = {
+  'strong-hire': 'bg-emerald-500/20 text-emerald-300',
+  hire: 'bg-emerald-500/10 text-emerald-400',
+  'lean-hire': 'bg-amber-500/10 text-amber-400',
+  'no-hire': 'bg-rose-500/10 text-rose-400',
+  'strong-no-hire': 'bg-rose-500/20 text-rose-300',
+};
+
+// Hiring-panel style debrief: a recommendation, competency ratings, then every answer with the reveal
+function MockDebrief() {
+  const { currentSession, resetSession, gradeAnswer, replaySession } = usePracticeStore();
+  
+  if (!currentSession) return null;
+  
+  const scorecard = buildScorecard(currentSession);
+  
+  const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="max-w-4xl mx-auto space-y-6"
+      >
+        {/* Recommendation */}
+        <div className="glass rounded-2xl p-8 text-center">
+          <Briefcase className="w-10 h-10 mx-auto mb-4 text-primary" />
+          <h1 className="text-3xl font-bold mb-2">Interview Debrief</h1>
+          <p className="text-muted-foreground mb-6">
+            {currentSession.categoryName}
+            <SeedLabel seed={currentSession.seed} />
+          </p>
+          <div className={`inline-block px-6 py-3 rounded-xl text-2xl font-bold mb-3 ${recommendationClasses[scorecard.recommendation]}`}>
+            {recommendationLabels[scorecard.recommendation]}
+          </div>
+          <p className="text-muted-foreground">
+            Overall {scorecard.overallScore}% • {currentSession.results.length} of {currentSession.questions.length} questions answered
+          </p>
+          {scorecard.pendingGrades > 0 && (
+            <p className="flex items-center justify-center gap-2 mt-2 text-sm text-amber-400">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {scorecard.pendingGrades} {scorecard.pendingGrades === 1 ? 'answer is' : 'answers are'} still being graded
+            </p>
+          )}
+        </div>
+        
+        {/* Competencies */}
+        <div className="glass rounded-2xl p-6">
+          <h2 className="font-semibold mb-4">Scorecard</h2>
+          <div className="divide-y divide-border">
+            {scorecard.competencies.map((competency) => (
+              <div key={competency.id} className="flex flex-wrap items-center gap-4 py-3">
+                <div className="flex-1 min-w-[12rem]">
+                  <p className="font-medium">{competency.label}</p>
+                  <p className="text-xs text-muted-foreground">{competency.evidence}</p>
+                </div>
+                <div className="flex gap-1" title={`${competency.rating} of 4`}>
+                  {[1, 2, 3, 4].map((level) => (
+                    <span
+                      key={level}
+                      className={`w-6 h-2 rounded-full ${level <= competency.rating ? 'bg-primary' : 'bg-muted'}`}
+                    />
+                  ))}
+                </div>
+                <span className="w-12 text-right text-sm text-muted-foreground">{competency.score}%</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        
+        {/* Answers */}
+        <div className="space-y-4">
+          {currentSession.questions.map((question, index) => {
+            const result = currentSession.results.find(r => r.questionId === question.id);
+            const isMultipleChoice = question.answerFormat === 'multiple-choice';
+            const chosen = isMultipleChoice ? question.options?.find(o => o.id === result?.userAnswer) : undefined;
+            const correct = isMultipleChoice ? question.options?.find(o => o.isCorrect) : undefined;
+            const needsGrade = result && question.answerFormat === 'essay' && result.feedback === '' && result.autoScore === undefined;
+            
+            return (
+              <div key={question.id} className="glass rounded-2xl p-6 space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium">Q{index + 1}</span>
+                  <DifficultyBadge difficulty={question.difficulty} size="sm" />
+                  <span className="px-2 py-1 rounded-full text-xs bg-muted text-muted-foreground">
+                    {result
+                      ? `${formatDuration(result.timeTaken)} of ${formatDuration(getQuestionTimeBudget(question))}`
+                      : 'Not reached'}
+                  </span>
+                  {result && isTimedOut(result, question) && (
+                    <span className="px-2 py-1 rounded-full text-xs bg-rose-500/10 text-rose-400">Timed out</span>
+                  )}
+                  {result && !needsGrade && (
+                    <span className="ml-auto text-sm font-medium">{Math.round(result.score * 100)}%</span>
+                  )}
+                </div>
+                <h3 className="font-semibold"><InlineMarkdown text={question.question} /></h3>
+                
+                {result && (
+                  <div>
+                    <h4 className="text-sm font-medium text-muted-foreground mb-1">Your answer</h4>
+                    <div className="p-3 rounded-lg bg-muted/50 text-sm whitespace-pre-wrap">
+                      {chosen ? chosen.text
+                        : question.answerFormat === 'essay' && question.type !== 'coding' && result.userAnswer.trim()
+                          ? <Markdown text={result.userAnswer} className="whitespace-normal" />
+                          : describeAnswer(question, result.userAnswer) || <span className="text-muted-foreground">No answer</span>}
+                    </div>
+                  </div>
+                )}
+                
+                <div className="p-4 rounded-lg bg-emerald-500/10 border border-emerald-500/20">
+                  <h4 className="text-sm font-semibold text-emerald-400 mb-2">Expected answer</h4>
+                  {correct && <p className="text-sm font-medium mb-2">{correct.text}</p>}
+                  {isStructuredFormat(question.answerFormat) && (
+                    <p className="text-sm font-medium mb-2 whitespace-pre-wrap">{describeExpectedAnswer(question)}</p>
+                  )}
+                  <Markdown text={question.answer} className="text-sm" />
+                  {question.codeExample && (
+                    <div className="mt-4">
+                      <CodeBlock code={question.codeExample} />
+                    </div>
+                  )}
+                </div>
+                
+                {result && (result.autoScore !== undefined || result.selfScore !== undefined
+                  ? <GradeFeedback result={result} />
+                  : result.feedback && <Markdown text={result.feedback} className="text-sm text-muted-foreground" />)}
+                
+                {/* Automatic grading can fail; the answer can still be graded by hand */}
+                {needsGrade && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">Not graded yet. Grade it yourself:</span>
+                    {[0.25, 0.5, 0.75, 1].map((score) => (
+                      <button
+                        key={score}
+                        onClick={() => gradeAnswer(question.id, score, 'Self-graded after the interview.', { source: 'self' })}
+                        className="px-3 py-1 rounded-lg bg-muted hover:bg-muted/80 transition-colors"
+                      >
+                        {score * 100}%
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        
+        <div className="flex flex-col sm:flex-row gap-4">
+          <button
+            onClick={resetSession}
+            className="flex-1 flex items-center justify-center gap-2 py-4 rounded-xl bg-muted hover:bg-muted/80 transition-colors"
+          >
+            <Home className="w-5 h-5" />
+            Back to Dashboard
+          </button>
+          {currentSession.seed !== undefined && (
+            <button
+              onClick={() => replaySession(currentSession)}
+              className="flex-1 flex items-center justify-center gap-2 py-4 rounded-xl bg-muted hover:bg-muted/80 transition-colors"
+            >
+              <Repeat className="w-5 h-5" />
+              Replay Interview
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+// Entering this seed when configuring a session asks the same questions again
+function SeedLabel({ seed }: { seed?: number }) {
+  if (seed === undefined) return null;
+  return <span className="text-xs"> • Seed {seed}</span>;
+}
@@ -0,0 +1,675 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Plus, Trash2, Save, Eye, EyeOff, X, AlertTriangle, Terminal, Loader2 } from 'lucide-react';
+import { AnswerFormat, CodeTest, Difficulty, MultipleChoiceOption, Question, QuestionType } from '@/data/types';
+import { allQuestions, useCategories } from '@/data/questions';
+import { RawFields, checkQuestionData } from '@/lib/question-schema';
+import { validateQuestion } from '@/lib/question-validation';
+import { BLANK_MARKER, answerFormats, matchesOutput } from '@/lib/answer-formats';
+import { recordOutput } from '@/lib/playground/record-output';
+import { difficultyLevels } from '@/lib/adaptive-difficulty';
+import { useCustomQuestionStore } from '@/store/custom-question-store';
+import { CodeBlock } from './CodeBlock';
+
+interface QuestionEditorProps {
+  initial?: Question;
+  originalId?: string; // ID of the custom question being edited; absent when creating
+  defaultCategory?: string; // Category of a new question when `initial` is absent
+  onSave: (question: Question) => void;
+}
+
+interface QuestionDraft {
+  id: string;
+  category: string;
+  subcategory: string;
+  question: string;
+  answer: string;
+  difficulty: Difficulty;
+  type: QuestionType;
+  answerFormat: AnswerFormat;
+  options: MultipleChoiceOption[];
+  steps: string[]; // In the correct order
+  blanks: string[]; // One per blank: accepted variants separated by `|`
+  expectedOutput: string[] | null; // Null until recorded, and again whenever the code example changes
+  codeExample: string;
+  starterCode: string;
+  tests: CodeTest[];
+  reactVersion: string;
+  followUp: FollowUpDraft[];
+  rubric: string; // JSON, edited as text
+  tags: string[];
+  timeEstimate: string;
+}
+
+// A follow-up and its reference answer, kept together while editing
+interface FollowUpDraft {
+  prompt: string;
+  answer: string; // Empty when the follow-up is shown ungraded
+}
+
+const questionTypes: QuestionType[] = ['conceptual', 'coding', 'debugging', 'system-design'];
+
+const inputClass = 'w-full py-2 px-3 rounded-lg bg-muted/50 border border-border focus:border-primary outline-none text-sm';
+
+const optionId = (index: number) => String.fromCharCode(97 + index);
+
+function toDraft(question?: Question, defaultCategory = ''): QuestionDraft {
+  return {
+    id: question?.id ?? `custom-${Date.now().toString(36)}`,
+    category: question?.category ?? defaultCategory,
+    subcategory: question?.subcategory ?? '',
+    question: question?.question ?? '',
+    answer: question?.answer ?? '',
+    difficulty: question?.difficulty ?? 'intermediate',
+    type: question?.type ?? 'conceptual',
+    answerFormat: question?.answerFormat ?? 'essay',
+    options: question?.options ?? [
+      { id: 'a', text: '', isCorrect: true },
+      { id: 'b', text: '', isCorrect: false },
+    ],
+    steps: question?.steps?.map(step => step.text) ?? ['', ''],
+    blanks: question?.blanks?.map(blank => blank.accepted.join(' | ')) ?? [''],
+    expectedOutput: question?.expectedOutput ?? null,
+    codeExample: question?.codeExample ?? '',
+    starterCode: question?.starterCode ?? '',
+    tests: question?.tests ?? [],
+    reactVersion: question?.reactVersion ?? '',
+    followUp: question?.followUp?.map((prompt, i) => ({ prompt, answer: question.followUpAnswers?.[i] ?? '' })) ?? [],
+    rubric: question?.rubric ? JSON.stringify(question.rubric, null, 2) : '',
+    tags: question?.tags ?? [],
+    timeEstimate: String(question?.timeEstimate ?? 5),
+  };
+}
+
+// Empty optional fields are left out so the schema check treats them as absent
+function fromDraft(draft: QuestionDraft): { data: RawFields; errors: string[] } {
+  const errors: string[] = [];
+  const optional = (value: string) => value.trim() || undefined;
+
+  let rubric: unknown;
+  if (draft.rubric.trim()) {
+    try {
+      rubric = JSON.parse(draft.rubric);
+    } catch {
+      errors.push('Rubric is not valid JSON');
+    }
+  }
+
+  const followUp = draft.followUp
+    .map(f => ({ prompt: f.prompt.trim(), answer: f.answer.trim() }))
+    .filter(f => f.prompt);
+  const data: RawFields = {
+    id: draft.id.trim(),
+    category: draft.category.trim(),
+    subcategory: optional(draft.subcategory),
+    question: draft.question.trim(),
+    answer: draft.answer.trim(),
+    difficulty: draft.difficulty,
+    type: draft.type,
+    answerFormat: draft.answerFormat,
+    // Predict-output candidates come from the content files; they are kept but not edited here
+    options: draft.answerFormat === 'multiple-choice' || draft.answerFormat === 'multi-select'
+      || (draft.answerFormat === 'predict-output' && draft.options.some(o => o.text.trim()))
+      ? draft.options
+      : undefined,
+    steps: draft.answerFormat === 'ordering'
+      ? draft.steps.map(text => text.trim()).filter(Boolean).map((text, i) => ({ id: optionId(i), text }))
+      : undefined,
+    blanks: draft.answerFormat === 'fill-blank'
+      ? draft.blanks.map(line => ({ accepted: line.split('|').map(variant => variant.trim()).filter(Boolean) }))
+      : undefined,
+    expectedOutput: draft.answerFormat === 'predict-output' ? draft.expectedOutput ?? undefined : undefined,
+    codeExample: optional(draft.codeExample),
+    starterCode: draft.type === 'coding' ? optional(draft.starterCode) : undefined,
+    tests: draft.type === 'coding' && draft.tests.length > 0 ? draft.tests : undefined,
+    reactVersion: draft.type === 'coding' ? optional(draft.reactVersion) : undefined,
+    followUp: followUp.length > 0 ? followUp.map(f => f.prompt) : undefined,
+    followUpAnswers: followUp.some(f => f.answer) ? followUp.map(f => f.answer) : undefined,
+    rubric,
+    tags: draft.tags,
+    timeEstimate: Number(draft.timeEstimate),
+  };
+
+  Object.keys(data).forEach(key => data[key] === undefined && delete data[key]);
+  return { data, errors };
+}
+
+export function QuestionEditor({ initial, originalId, defaultCategory, onSave }: QuestionEditorProps) {
+  const customQuestions = useCustomQuestionStore(state => state.questions);
+  const [draft, setDraft] = useState<QuestionDraft>(() => toDraft(initial, defaultCategory));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [showPreview, setShowPreview] = useState(true);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordError, setRecordError] = useState<string | null>(null);
+
+  const update = <K extends keyof QuestionDraft>(key: K, value: QuestionDraft[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const categories = useCategories();
+  const categoryLabels = useMemo(
+    () => [...new Set([...categories.map(c => c.label), ...customQuestions.map(q => q.category)])].sort(),
+    [categories, customQuestions]
+  );
+
+  // Most-used tags first
+  const knownTags = useMemo(() => {
+    const counts = new Map<string, number>();
+    [...allQuestions, ...customQuestions].forEach(q =>
+      q.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag);
+  }, [customQuestions]);
+
+  const recordExpectedOutput = async () => {
+    setIsRecording(true);
+    setRecordError(null);
+    const run = await recordOutput(draft.codeExample);
+    setIsRecording(false);
+
+    if (run.error) {
+      setRecordError(run.error);
+      return;
+    }
+    setDraft(prev => ({
+      ...prev,
+      expectedOutput: run.lines,
+      options: prev.options.map(o => ({ ...o, isCorrect: matchesOutput(o.text, run.lines) })),
+    }));
+  };
+
+  const handleSave = () => {
+    const { data, errors: draftErrors } = fromDraft(draft);
+    const { question, errors: schemaErrors } = checkQuestionData(data);
+    const problems = [...draftErrors, ...schemaErrors];
+
+    if (question) {
+      problems.push(...validateQuestion(question).map(issue => issue.message));
+
+      const takenByBuiltIn = allQuestions.some(q => q.id === question.id);
+      const takenByCustom = customQuestions.some(q => q.id === question.id && q.id !== originalId);
+      if (takenByBuiltIn || takenByCustom) {
+        problems.push(`ID '${question.id}' is already used by another question`);
+      }
+    }
+
+    setErrors(problems);
+    if (question && problems.length === 0) {
+      onSave(question);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Basics */}
+      <section className="glass rounded-xl p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Field label="ID">
+            <input value={draft.id} onChange={(e) => update('id', e.target.value)} className={`${inputClass} font-mono`} />
+          </Field>
+          <Field label="Category">
+            <input
+              value={draft.category}
+              onChange={(e) => update('category', e.target.value)}
+              list="question-categories"
+              placeholder="e.g. Hooks"
+              className={inputClass}
+            />
+            <datalist id="question-categories">
+              {categoryLabels.map((label) => (
+                <option key={label} value={label} />
+              ))}
+            </datalist>
+          </Field>
+          <Field label="Subcategory (optional)">
+            <input value={draft.subcategory} onChange={(e) => update('subcategory', e.target.value)} className={inputClass} />
+          </Field>
+          <Field label="Time estimate (minutes)">
+            <input
+              type="number"
+              min={1}
+              value={draft.timeEstimate}
+              onChange={(e) => update('timeEstimate', e.target.value)}
+              className={inputClass}
+            />
+          </Field>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Field label="Difficulty">
+            <select value={draft.difficulty} onChange={(e) => update('difficulty', e.target.value as Difficulty)} className={inputClass}>
+              {difficultyLevels.map((level) => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Type">
+            <select value={draft.type} onChange={(e) => update('type', e.target.value as QuestionType)} className={inputClass}>
+              {questionTypes.map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Answer format">
+            <select
+              value={draft.answerFormat}
+              onChange={(e) => update('answerFormat', e.target.value as AnswerFormat)}
+              className={inputClass}
+            >
+              {answerFormats.map((format) => (
+                <option key={format} value={format}>{format}</option>
+              ))}
+            </select>
+          </Field>
+        </div>
+
+        <Field label="Question">
+          <textarea
+            value={draft.question}
+            onChange={(e) => update('question', e.target.value)}
+            className={`${inputClass} h-20 resize-y`}
+          />
+        </Field>
+      </section>
+
+      {/* Options */}
+      {(draft.answerFormat === 'multiple-choice' || draft.answerFormat === 'multi-select') && (
+        <section className="glass rounded-xl p-4 space-y-3">
+          <h2 className="font-semibold">Options</h2>
+          <p className="text-xs text-muted-foreground">
+            {draft.answerFormat === 'multi-select' ? 'Tick every correct option.' : 'Select the one correct option.'}
+          </p>
+          <OptionEditor
+            options={draft.options}
+            multiple={draft.answerFormat === 'multi-select'}
+            onChange={(options) => update('options', options)}
+          />
+        </section>
+      )}
+
+      {/* Steps */}
+      {draft.answerFormat === 'ordering' && (
+        <section className="glass rounded-xl p-4 space-y-3">
+          <h2 className="font-semibold">Steps</h2>
+          <p className="text-xs text-muted-foreground">List the steps in the correct order; they are shuffled when asked.</p>
+          <ListEditor items={draft.steps} placeholder="Step" onChange={(steps) => update('steps', steps)} />
+        </section>
+      )}
+
+      {/* Blanks */}
+      {draft.answerFormat === 'fill-blank' && (
+        <section className="glass rounded-xl p-4 space-y-3">
+          <h2 className="font-semibold">Blanks</h2>
+          <p className="text-xs text-muted-foreground">
+            Mark each blank in the question with {BLANK_MARKER}. Add one line per blank, in order, and separate
+            accepted variants with |. Case, spacing and backticks are ignored when matching.
+          </p>
+          <ListEditor items={draft.blanks} placeholder="useState | React.useState" onChange={(blanks) => update('blanks', blanks)} />
+        </section>
+      )}
+
+      {/* Answer */}
+      <section className="glass rounded-xl p-4 space-y-4">
+        <Field label={draft.answerFormat === 'essay' ? 'Expected answer' : 'Explanation'}>
+          <textarea
+            value={draft.answer}
+            onChange={(e) => update('answer', e.target.value)}
+            className={`${inputClass} h-48 resize-y`}
+          />
+        </Field>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium">Code example (optional)</span>
+            <button
+              onClick={() => setShowPreview(!showPreview)}
+              className="flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              {showPreview ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+              {showPreview ? 'Hide' : 'Show'} preview
+            </button>
+          </div>
+          <textarea
+            value={draft.codeExample}
+            onChange={(e) => setDraft(prev => ({ ...prev, codeExample: e.target.value, expectedOutput: null }))}
+            spellCheck={false}
+            className={`${inputClass} h-48 resize-y font-mono text-xs`}
+          />
+          {showPreview && draft.codeExample.trim() && (
+            <div className="mt-3">
+              <CodeBlock code={draft.codeExample} />
+            </div>
+          )}
+        </div>
+      </section>
+
+      {/* Expected Output */}
+      {draft.answerFormat === 'predict-output' && (
+        <section className="glass rounded-xl p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold">Expected output</h2>
+            <button
+              onClick={recordExpectedOutput}
+              disabled={isRecording || !draft.codeExample.trim()}
+              className="flex items-center gap-1 px-3 py-1 rounded-md text-xs bg-indigo-500/20 text-indigo-300 hover:bg-indigo-500/30 transition-colors disabled:opacity-50"
+            >
+              {isRecording ? <Loader2 className="w-3 h-3 animate-spin" /> : <Terminal className="w-3 h-3" />}
+              Run code example
+            </button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The code example is run with a captured console, and what it logs is the answer. Run it again after changing the code.
+          </p>
+          {recordError && <p className="text-sm text-rose-400">{recordError}</p>}
+          {draft.expectedOutput === null ? (
+            <p className="text-sm text-amber-400">Not recorded yet.</p>
+          ) : (
+            <pre className="p-3 rounded-lg bg-muted/50 font-mono text-xs whitespace-pre-wrap">
+              {draft.expectedOutput.length > 0 ? draft.expectedOutput.join('\n') : '(nothing is logged)'}
+            </pre>
+          )}
+        </section>
+      )}
+
+      {/* Coding */}
+      {draft.type === 'coding' && (
+        <section className="glass rounded-xl p-4 space-y-4">
+          <h2 className="font-semibold">Playground</h2>
+          <Field label="Starter code (App.tsx)">
+            <textarea
+              value={draft.starterCode}
+              onChange={(e) => update('starterCode', e.target.value)}
+              spellCheck={false}
+              className={`${inputClass} h-40 resize-y font-mono text-xs`}
+            />
+          </Field>
+          <Field label="React version (optional)">
+            <input
+              value={draft.reactVersion}
+              onChange={(e) => update('reactVersion', e.target.value)}
+              placeholder="^19.2.0"
+              className={inputClass}
+            />
+          </Field>
+          <TestsEditor tests={draft.tests} onChange={(tests) => update('tests', tests)} />
+        </section>
+      )}
+
+      {/* Extras */}
+      <section className="glass rounded-xl p-4 space-y-4">
+        <Field label="Tags">
+          <TagInput tags={draft.tags} suggestions={knownTags} onChange={(tags) => update('tags', tags)} />
+        </Field>
+        <FollowUpEditor followUps={draft.followUp} onChange={(followUp) => update('followUp', followUp)} />
+        <Field label="Rubric (optional JSON)">
+          <textarea
+            value={draft.rubric}
+            onChange={(e) => update('rubric', e.target.value)}
+            spellCheck={false}
+            placeholder={'{ "concepts": [{ "id": "...", "label": "...", "weight": 1 }] }'}
+            className={`${inputClass} h-32 resize-y font-mono text-xs`}
+          />
+        </Field>
+      </section>
+
+      {errors.length > 0 && (
+        <div className="p-4 rounded-lg bg-rose-500/10 text-sm text-rose-400 space-y-1">
+          {errors.map((error) => (
+            <p key={error} className="flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handleSave}
+        className="flex items-center justify-center gap-2 w-full py-4 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold hover:opacity-90 transition-opacity"
+      >
+        <Save className="w-5 h-5" />
+        Save Question
+      </button>
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <span className="block text-sm font-medium">{label}</span>
+      {children}
+    </div>
+  );
+}
+
+// One radio group, so at most one option can be correct; saving requires exactly one
+interface OptionEditorProps {
+  options: MultipleChoiceOption[];
+  multiple: boolean; // Multi-select questions can have several correct options
+  onChange: (options: MultipleChoiceOption[]) => void;
+}
+
+function OptionEditor({ options, multiple, onChange }: OptionEditorProps) {
+  const relabel = (next: MultipleChoiceOption[]) => next.map((option, i) => ({ ...option, id: optionId(i) }));
+
+  return (
+    <div className="space-y-2">
+      {options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type={multiple ? 'checkbox' : 'radio'}
+            name="correct-option"
+            checked={option.isCorrect}
+            onChange={() => onChange(options.map((o, i) =>
+              multiple ? (i === index ? { ...o, isCorrect: !o.isCorrect } : o) : { ...o, isCorrect: i === index }))}
+            title="Correct answer"
+          />
+          <span className="w-5 text-sm text-muted-foreground">{option.id.toUpperCase()}.</span>
+          <input
+            value={option.text}
+            onChange={(e) => onChange(options.map((o, i) => (i === index ? { ...o, text: e.target.value } : o)))}
+            className={inputClass}
+          />
+          <button
+            onClick={() => onChange(relabel(options.filter((_, i) => i !== index)))}
+            disabled={options.length <= 2}
+            title="Remove option"
+            className="p-2 rounded-lg hover:bg-muted disabled:opacity-30 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange(relabel([...options, { id: '', text: '', isCorrect: false }]))}
+        disabled={options.length >= 8}
+        className="flex items-center gap-1 text-sm text-primary hover:underline disabled:opacity-50"
+      >
+        <Plus className="w-4 h-4" />
+        Add option
+      </button>
+    </div>
+  );
+}
+
+function TestsEditor({ tests, onChange }: { tests: CodeTest[]; onChange: (tests: CodeTest[]) => void }) {
+  const updateTest = (index: number, changes: Partial<CodeTest>) =>
+    onChange(tests.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+
+  return (
+    <div className="space-y-3">
+      <span className="text-sm font-medium">Tests</span>
+      {tests.map((test, index) => (
+        <div key={index} className="p-3 rounded-lg bg-muted/30 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={test.name}
+              onChange={(e) => updateTest(index, { name: e.target.value })}
+              placeholder="Test name"
+              className={inputClass}
+            />
+            <button
+              onClick={() => onChange(tests.filter((_, i) => i !== index))}
+              title="Remove test"
+              className="p-2 rounded-lg hover:bg-muted transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <textarea
+            value={test.code}
+            onChange={(e) => updateTest(index, { code: e.target.value })}
+            placeholder="expect(solution.add(1, 2)).toBe(3);"
+            spellCheck={false}
+            className={`${inputClass} h-24 resize-y font-mono text-xs`}
+          />
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...tests, { name: '', code: '' }])}
+        className="flex items-center gap-1 text-sm text-primary hover:underline"
+      >
+        <Plus className="w-4 h-4" />
+        Add test
+      </button>
+    </div>
+  );
+}
+
+function FollowUpEditor({ followUps, onChange }: { followUps: FollowUpDraft[]; onChange: (followUps: FollowUpDraft[]) => void }) {
+  const updateFollowUp = (index: number, changes: Partial<FollowUpDraft>) =>
+    onChange(followUps.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+
+  return (
+    <div className="space-y-3">
+      <span className="text-sm font-medium">Follow-up questions</span>
+      <p className="text-xs text-muted-foreground">
+        Follow-ups are graded against their reference answer; without one, the answer is shown ungraded.
+      </p>
+      {followUps.map((followUp, index) => (
+        <div key={index} className="p-3 rounded-lg bg-muted/30 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={followUp.prompt}
+              onChange={(e) => updateFollowUp(index, { prompt: e.target.value })}
+              placeholder="Follow-up question"
+              className={inputClass}
+            />
+            <button
+              onClick={() => onChange(followUps.filter((_, i) => i !== index))}
+              title="Remove follow-up"
+              className="p-2 rounded-lg hover:bg-muted transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <textarea
+            value={followUp.answer}
+            onChange={(e) => updateFollowUp(index, { answer: e.target.value })}
+            placeholder="Reference answer (optional)"
+            className={`${inputClass} h-20 resize-y`}
+          />
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...followUps, { prompt: '', answer: '' }])}
+        className="flex items-center gap-1 text-sm text-primary hover:underline"
+      >
+        <Plus className="w-4 h-4" />
+        Add follow-up
+      </button>
+    </div>
+  );
+}
+
+function ListEditor({ items, placeholder, onChange }: { items: string[]; placeholder: string; onChange: (items: string[]) => void }) {
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            value={item}
+            onChange={(e) => onChange(items.map((it, i) => (i === index ? e.target.value : it)))}
+            placeholder={placeholder}
+            className={inputClass}
+          />
+          <button
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            title="Remove"
+            className="p-2 rounded-lg hover:bg-muted transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...items, ''])}
+        className="flex items-center gap-1 text-sm text-primary hover:underline"
+      >
+        <Plus className="w-4 h-4" />
+        Add
+      </button>
+    </div>
+  );
+}
+
+const TAG_SUGGESTION_COUNT = 8;
+
+function TagInput({ tags, suggestions, onChange }: { tags: string[]; suggestions: string[]; onChange: (tags: string[]) => void }) {
+  const [input, setInput] = useState('');
+  const term = input.trim().toLowerCase();
+  const matches = term
+    ? suggestions.filter(tag => tag.toLowerCase().includes(term) && !tags.includes(tag)).slice(0, TAG_SUGGESTION_COUNT)
+    : [];
+
+  const addTag = (tag: string) => {
+    const value = tag.trim();
+    if (value && !tags.includes(value)) onChange([...tags, value]);
+    setInput('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <span key={tag} className="flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-primary/20 text-primary">
+              #{tag}
+              <button onClick={() => onChange(tags.filter(t => t !== tag))} title={`Remove ${tag}`}>
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addTag(matches[0] && matches[0].toLowerCase() === term ? matches[0] : input);
+          } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+            onChange(tags.slice(0, -1));
+          }
+        }}
+        placeholder="Type a tag and press Enter"
+        className={inputClass}
+      />
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matches.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => addTag(tag)}
+              className="px-2 py-1 rounded-md text-xs bg-muted text-muted-foreground hover:text-foreground transition-colors"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { Clock, History, Play, Trash2 } from 'lucide-react';
+import { usePracticeStore, getSessionLength, getTimeRemaining } from '@/store/practice-store';
+
+// Shown when the app loads with a session that was interrupted by a reload or a closed tab
+export function ResumePrompt() {
+  const { currentSession, answerDraft, resumeSession, resetSession } = usePracticeStore();
+
+  if (!currentSession) return null;
+
+  const isMock = currentSession.mode === 'mock';
+  const timeRemaining = getTimeRemaining(currentSession);
+  const hasDraft = answerDraft?.sessionId === currentSession.id && answerDraft.answer.trim() !== '';
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-4">
+      <motion.div
+        className="w-full max-w-md glass rounded-2xl p-6 glow"
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+      >
+        <div className="flex items-center gap-3 mb-4">
+          <History className="w-6 h-6 text-primary" />
+          <h2 className="text-xl font-bold">Resume session?</h2>
+        </div>
+
+        <p className="text-sm text-muted-foreground mb-6">
+          Your {isMock ? 'mock interview' : 'session'} <span className="text-foreground">{currentSession.categoryName}</span> was
+          interrupted. The clock stopped when you left and starts again when you resume.
+        </p>
+
+        <div className="grid grid-cols-2 gap-3 mb-6">
+          <div className="p-3 rounded-lg bg-muted/50">
+            <p className="text-xs text-muted-foreground">Answered</p>
+            <p className="font-semibold">
+              {currentSession.results.length} / {getSessionLength(currentSession)}
+            </p>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50">
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Clock className="w-3 h-3" />
+              Time left
+            </p>
+            <p className="font-semibold font-mono">
+              {isMock ? 'Per question' : formatTime(timeRemaining)}
+            </p>
+          </div>
+        </div>
+
+        {hasDraft && (
+          <p className="text-sm text-muted-foreground mb-6">
+            Your unsubmitted answer to question {currentSession.currentIndex + 1} was saved too.
+          </p>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={resetSession}
+            className="flex items-center justify-center gap-2 flex-1 py-3 rounded-xl bg-muted hover:bg-muted/80 font-medium transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            Discard
+          </button>
+          <button
+            onClick={resumeSession}
+            className="flex items-center justify-center gap-2 flex-1 py-3 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold hover:opacity-90 transition-opacity"
+          >
+            <Play className="w-4 h-4" />
+            Resume
+          </button>
+        </div>
+      </motion.div>
+    </main>
+  );
+}
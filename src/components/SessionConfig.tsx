@@ -1,33 +1,53 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Clock, Hash, Play, FileText, ListChecks, Layers } from 'lucide-react';
-import { usePracticeStore } from '@/store/practice-store';
-import { getQuestionsByCategory, allQuestions, getQuestionsByFormat } from '@/data/questions';
+import { X, Clock, Hash, Play, FileText, ListChecks, SquareCheck, ListOrdered, TextCursorInput, Terminal, Layers, Shuffle, CalendarClock, Gauge, TrendingUp, Crosshair, Briefcase, Sprout } from 'lucide-react';
+import { usePracticeStore, SessionMode, DifficultyFilter } from '@/store/practice-store';
+import { isDue } from '@/lib/spaced-repetition';
+import { difficultyLevels } from '@/lib/adaptive-difficulty';
+import { collectAnswers } from '@/lib/analytics';
+import { findWeakTopics, planWeakSpotDrill } from '@/lib/weak-spots';
+import { getMockTimeLimit } from '@/lib/mock-interview';
+import { parseSeed } from '@/lib/random';
+import { answerFormatLabels, answerFormats } from '@/lib/answer-formats';
+import { useCategoryQuestions, getQuestionsByFormat, getQuestionById } from '@/data/questions';
 import { AnswerFormat } from '@/data/types';
 
 interface SessionConfigProps {
   categoryId: string;
   categoryName: string;
+  initialMode?: SessionMode;
   onClose: () => void;
 }
 
 type QuestionFormatFilter = 'all' | AnswerFormat;
 
-export function SessionConfig({ categoryId, categoryName, onClose }: SessionConfigProps) {
+const formatIcons: Record<AnswerFormat, typeof FileText> = {
+  essay: FileText,
+  'multiple-choice': ListChecks,
+  'multi-select': SquareCheck,
+  ordering: ListOrdered,
+  'fill-blank': TextCursorInput,
+  'predict-output': Terminal,
+};
+
+export function SessionConfig({ categoryId, categoryName, initialMode = 'practice', onClose }: SessionConfigProps) {
   const [questionCount, setQuestionCount] = useState(5);
   const [customCount, setCustomCount] = useState('');
   const [useCustomCount, setUseCustomCount] = useState(false);
   const [timeLimit, setTimeLimit] = useState(30);
   const [formatFilter, setFormatFilter] = useState<QuestionFormatFilter>('all');
-  const { startSession } = usePracticeStore();
+  const [mode, setMode] = useState<SessionMode>(initialMode);
+  const [difficultyFilter, setDifficultyFilter] = useState<DifficultyFilter>('all');
+  const [adaptive, setAdaptive] = useState(false);
+  const [seedText, setSeedText] = useState('');
+  const { startSession, reviewSchedule, sessionHistory } = usePracticeStore();
+  const baseQuestions = useCategoryQuestions(categoryId);
   
   // Get questions based on category and format filter
-  const getFilteredQuestions = () => {
-    let questions = categoryId === 'all' 
-      ? allQuestions 
-      : getQuestionsByCategory(categoryId);
+  const getFormatQuestions = () => {
+    let questions = baseQuestions;
     
     if (formatFilter !== 'all') {
       questions = questions.filter(q => q.answerFormat === formatFilter);
@@ -36,13 +56,26 @@ export function SessionConfig({ categoryId, categoryName, onClose }: SessionConf
     return questions;
   };
   
-  const filteredQuestions = getFilteredQuestions();
-  const availableQuestions = filteredQuestions.length;
+  const formatQuestions = getFormatQuestions();
+  
+  // Adaptive sessions draw from every difficulty; the filter only picks the starting level
+  const isAdaptive = adaptive && mode !== 'drill' && mode !== 'mock';
+  const filteredQuestions = isAdaptive || difficultyFilter === 'all'
+    ? formatQuestions
+    : formatQuestions.filter(q => q.difficulty === difficultyFilter);
+  
+  // Drills can only use questions on weak topics that weren't already answered well
+  const records = useMemo(() => collectAnswers(sessionHistory, getQuestionById), [sessionHistory]);
+  const weakTopics = useMemo(() => findWeakTopics(records), [records]);
+  const drillCount = planWeakSpotDrill(records, filteredQuestions, Infinity, weakTopics).length;
+  
+  const availableQuestions = mode === 'drill' ? drillCount : filteredQuestions.length;
+  const dueCount = filteredQuestions.filter(q => reviewSchedule[q.id] && isDue(reviewSchedule[q.id])).length;
   
   // Get counts by format
-  const baseQuestions = categoryId === 'all' ? allQuestions : getQuestionsByCategory(categoryId);
-  const essayCount = baseQuestions.filter(q => q.answerFormat === 'essay').length;
-  const mcqCount = baseQuestions.filter(q => q.answerFormat === 'multiple-choice').length;
+  const formatCounts = Object.fromEntries(
+    answerFormats.map(format => [format, baseQuestions.filter(q => q.answerFormat === format).length])
+  ) as Record<AnswerFormat, number>;
   
   const effectiveQuestionCount = useCustomCount && customCount 
     ? Math.min(parseInt(customCount) || 0, availableQuestions) 
@@ -62,13 +95,22 @@ export function SessionConfig({ categoryId, categoryName, onClose }: SessionConf
     setCustomCount('');
   };
   
+  // Drills pick by weak topic, so only other sessions take a seed
+  const seed = mode === 'drill' ? undefined : parseSeed(seedText);
+  const isValidSeed = seedText.trim() === '' || mode === 'drill' || seed !== undefined;
+  
   const handleStart = () => {
-    startSession(categoryId, categoryName, effectiveQuestionCount, timeLimit, formatFilter);
+    startSession(categoryId, categoryName, effectiveQuestionCount, timeLimit, formatFilter, { mode, difficultyFilter, adaptive: isAdaptive, seed });
     onClose();
   };
   
   const isValidCount = effectiveQuestionCount > 0 && effectiveQuestionCount <= availableQuestions;
   
+  // Mock interviews budget each question from its estimate; this is the expected total
+  const sessionMinutes = mode === 'mock' && filteredQuestions.length > 0
+    ? Math.round(getMockTimeLimit(filteredQuestions) * effectiveQuestionCount / filteredQuestions.length)
+    : timeLimit;
+  
   return (
     <AnimatePresence>
       <motion.div
@@ -110,56 +152,169 @@ export function SessionConfig({ categoryId, categoryName, onClose }: SessionConf
             </p>
           </div>
           
-          {/* Question Format Filter */}
+          {/* Session Type */}
           <div className="mb-6">
             <label className="flex items-center gap-2 text-sm font-medium mb-3">
-              <Layers className="w-4 h-4 text-primary" />
-              Question Format
+              <CalendarClock className="w-4 h-4 text-primary" />
+              Session Type
             </label>
-            <div className="flex gap-2">
+            <div className="grid grid-cols-2 gap-2">
               <button
-                onClick={() => setFormatFilter('all')}
+                onClick={() => setMode('practice')}
                 className={`
                   flex-1 py-3 rounded-lg font-medium transition-all text-sm flex flex-col items-center gap-1
-                  ${formatFilter === 'all' 
+                  ${mode === 'practice' 
                     ? 'bg-primary text-white' 
                     : 'bg-muted hover:bg-muted/80 text-foreground'}
                 `}
               >
-                <span>All</span>
-                <span className="text-xs opacity-70">{baseQuestions.length}</span>
+                <Shuffle className="w-4 h-4" />
+                <span>Practice</span>
+                <span className="text-xs opacity-70">Random order</span>
+              </button>
+              <button
+                onClick={() => setMode('review')}
+                className={`
+                  flex-1 py-3 rounded-lg font-medium transition-all text-sm flex flex-col items-center gap-1
+                  ${mode === 'review' 
+                    ? 'bg-primary text-white' 
+                    : 'bg-muted hover:bg-muted/80 text-foreground'}
+                `}
+              >
+                <CalendarClock className="w-4 h-4" />
+                <span>Review due</span>
+                <span className="text-xs opacity-70">{dueCount} due today</span>
               </button>
               <button
-                onClick={() => setFormatFilter('essay')}
-                disabled={essayCount === 0}
+                onClick={() => setMode('drill')}
+                disabled={weakTopics.length === 0}
                 className={`
                   flex-1 py-3 rounded-lg font-medium transition-all text-sm flex flex-col items-center gap-1
-                  ${formatFilter === 'essay' 
+                  ${mode === 'drill' 
                     ? 'bg-primary text-white' 
                     : 'bg-muted hover:bg-muted/80 text-foreground'}
-                  ${essayCount === 0 ? 'opacity-50 cursor-not-allowed' : ''}
+                  ${weakTopics.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}
                 `}
               >
-                <FileText className="w-4 h-4" />
-                <span>Essay</span>
-                <span className="text-xs opacity-70">{essayCount}</span>
+                <Crosshair className="w-4 h-4" />
+                <span>Weak spots</span>
+                <span className="text-xs opacity-70">{weakTopics.length} weak topics</span>
               </button>
               <button
-                onClick={() => setFormatFilter('multiple-choice')}
-                disabled={mcqCount === 0}
+                onClick={() => setMode('mock')}
                 className={`
                   flex-1 py-3 rounded-lg font-medium transition-all text-sm flex flex-col items-center gap-1
-                  ${formatFilter === 'multiple-choice' 
+                  ${mode === 'mock' 
+                    ? 'bg-primary text-white' 
+                    : 'bg-muted hover:bg-muted/80 text-foreground'}
+                `}
+              >
+                <Briefcase className="w-4 h-4" />
+                <span>Mock interview</span>
+                <span className="text-xs opacity-70">Timed, no going back</span>
+              </button>
+            </div>
+            {mode === 'drill' && weakTopics.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Drilling {weakTopics.map(topic => topic.key).join(', ')}
+              </p>
+            )}
+          </div>
+          
+          {/* Question Format Filter */}
+          <div className="mb-6">
+            <label className="flex items-center gap-2 text-sm font-medium mb-3">
+              <Layers className="w-4 h-4 text-primary" />
+              Question Format
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={() => setFormatFilter('all')}
+                className={`
+                  py-3 rounded-lg font-medium transition-all text-sm flex flex-col items-center gap-1
+                  ${formatFilter === 'all' 
                     ? 'bg-primary text-white' 
                     : 'bg-muted hover:bg-muted/80 text-foreground'}
-                  ${mcqCount === 0 ? 'opacity-50 cursor-not-allowed' : ''}
                 `}
               >
-                <ListChecks className="w-4 h-4" />
-                <span>MCQ</span>
-                <span className="text-xs opacity-70">{mcqCount}</span>
+                <span>All</span>
+                <span className="text-xs opacity-70">{baseQuestions.length}</span>
               </button>
+              {answerFormats.map((format) => {
+                const Icon = formatIcons[format];
+                const count = formatCounts[format];
+                return (
+                  <button
+                    key={format}
+                    onClick={() => setFormatFilter(format)}
+                    disabled={count === 0}
+                    className={`
+                      py-3 rounded-lg font-medium transition-all text-sm flex flex-col items-center gap-1
+                      ${formatFilter === format 
+                        ? 'bg-primary text-white' 
+                        : 'bg-muted hover:bg-muted/80 text-foreground'}
+                      ${count === 0 ? 'opacity-50 cursor-not-allowed' : ''}
+                    `}
+                  >
+                    <Icon className="w-4 h-4" />
+                    <span>{format === 'multiple-choice' ? 'MCQ' : answerFormatLabels[format]}</span>
+                    <span className="text-xs opacity-70">{count}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          
+          {/* Difficulty Filter */}
+          <div className="mb-6">
+            <label className="flex items-center gap-2 text-sm font-medium mb-3">
+              <Gauge className="w-4 h-4 text-primary" />
+              {isAdaptive ? 'Starting Difficulty' : 'Difficulty'}
+            </label>
+            <div className="grid grid-cols-5 gap-2 mb-3">
+              {(['all', ...difficultyLevels] as DifficultyFilter[]).map((level) => {
+                const count = level === 'all'
+                  ? formatQuestions.length
+                  : formatQuestions.filter(q => q.difficulty === level).length;
+                
+                return (
+                  <button
+                    key={level}
+                    onClick={() => setDifficultyFilter(level)}
+                    disabled={count === 0}
+                    className={`
+                      py-2 rounded-lg font-medium transition-all text-xs flex flex-col items-center gap-1 capitalize
+                      ${difficultyFilter === level 
+                        ? 'bg-primary text-white' 
+                        : 'bg-muted hover:bg-muted/80 text-foreground'}
+                      ${count === 0 ? 'opacity-50 cursor-not-allowed' : ''}
+                    `}
+                  >
+                    <span>{level === 'intermediate' ? 'Mid' : level}</span>
+                    <span className="opacity-70">{count}</span>
+                  </button>
+                );
+              })}
             </div>
+            <button
+              onClick={() => setAdaptive(!adaptive)}
+              disabled={mode === 'drill' || mode === 'mock'}
+              className={`
+                w-full py-3 px-4 rounded-lg text-sm transition-all flex items-center gap-3 text-left
+                ${isAdaptive 
+                  ? 'bg-primary/20 border-2 border-primary' 
+                  : 'bg-muted border-2 border-transparent hover:bg-muted/80'}
+                ${mode === 'drill' || mode === 'mock' ? 'opacity-50 cursor-not-allowed' : ''}
+              `}
+            >
+              <TrendingUp className="w-4 h-4 text-primary shrink-0" />
+              <span>
+                <span className="font-medium">Adaptive</span>
+                <span className="block text-xs text-muted-foreground">
+                  Each next question gets harder after a strong answer and easier after a weak one
+                </span>
+              </span>
+            </button>
           </div>
           
           {/* Question Count */}
@@ -214,40 +369,88 @@ export function SessionConfig({ categoryId, categoryName, onClose }: SessionConf
           </div>
           
           {/* Time Limit */}
-          <div className="mb-8">
+          <div className="mb-6">
             <label className="flex items-center gap-2 text-sm font-medium mb-3">
               <Clock className="w-4 h-4 text-primary" />
               Time Limit (minutes)
             </label>
-            <div className="flex gap-2">
-              {[15, 30, 45, 60].map((time) => (
-                <button
-                  key={time}
-                  onClick={() => setTimeLimit(time)}
-                  className={`
-                    flex-1 py-3 rounded-lg font-medium transition-all
-                    ${timeLimit === time 
-                      ? 'bg-primary text-white' 
-                      : 'bg-muted hover:bg-muted/80 text-foreground'}
-                  `}
-                >
-                  {time}
-                </button>
-              ))}
-            </div>
+            {mode === 'mock' ? (
+              <p className="text-sm text-muted-foreground">
+                Each question gets its own timer from its time estimate and is submitted when it runs out.
+                Answers and feedback are revealed in the debrief.
+              </p>
+            ) : (
+              <div className="flex gap-2">
+                {[15, 30, 45, 60].map((time) => (
+                  <button
+                    key={time}
+                    onClick={() => setTimeLimit(time)}
+                    className={`
+                      flex-1 py-3 rounded-lg font-medium transition-all
+                      ${timeLimit === time 
+                        ? 'bg-primary text-white' 
+                        : 'bg-muted hover:bg-muted/80 text-foreground'}
+                    `}
+                  >
+                    {time}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
           
+          {/* Seed */}
+          {mode !== 'drill' && (
+            <div className="mb-8">
+              <label className="flex items-center gap-2 text-sm font-medium mb-3">
+                <Sprout className="w-4 h-4 text-primary" />
+                Seed (optional)
+              </label>
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="Random"
+                value={seedText}
+                onChange={(e) => setSeedText(e.target.value)}
+                className={`
+                  w-full py-3 px-4 rounded-lg font-medium transition-all outline-none bg-muted border-2 text-foreground
+                  ${isValidSeed ? 'border-transparent' : 'border-rose-500'}
+                  placeholder:text-muted-foreground
+                `}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {isValidSeed
+                  ? 'Use the seed shown after a session to get the same questions again'
+                  : 'A seed is a whole number'}
+              </p>
+            </div>
+          )}
+          
           {/* Summary */}
           <div className="bg-muted/50 rounded-lg p-4 mb-6">
             <p className="text-sm text-muted-foreground">
               You&apos;ll answer <span className="text-foreground font-medium">{effectiveQuestionCount} questions</span> in{' '}
-              <span className="text-foreground font-medium">{timeLimit} minutes</span>
+              <span className="text-foreground font-medium">{mode === 'mock' ? 'about ' : ''}{sessionMinutes} minutes</span>
               {formatFilter !== 'all' && (
-                <span className="text-foreground font-medium"> ({formatFilter === 'essay' ? 'Essay' : 'Multiple Choice'})</span>
+                <span className="text-foreground font-medium"> ({answerFormatLabels[formatFilter]})</span>
+              )}
+              {isAdaptive && (
+                <span className="text-foreground font-medium"> (adaptive)</span>
+              )}
+              {mode === 'drill' && (
+                <span className="text-foreground font-medium"> on your weakest topics</span>
+              )}
+              {mode === 'mock' && (
+                <span className="text-foreground font-medium"> as a mock interview</span>
+              )}
+              {mode === 'review' && (
+                <span className="text-foreground font-medium">
+                  {' '}— {Math.min(dueCount, effectiveQuestionCount)} due for review first
+                </span>
               )}
               <br />
               <span className="text-xs">
-                ({effectiveQuestionCount > 0 ? Math.floor(timeLimit / effectiveQuestionCount) : 0} minutes per question on average)
+                ({effectiveQuestionCount > 0 ? Math.floor(sessionMinutes / effectiveQuestionCount) : 0} minutes per question on average)
               </span>
             </p>
           </div>
@@ -255,11 +458,11 @@ export function SessionConfig({ categoryId, categoryName, onClose }: SessionConf
           {/* Start Button */}
           <button
             onClick={handleStart}
-            disabled={!isValidCount}
+            disabled={!isValidCount || !isValidSeed}
             className="w-full flex items-center justify-center gap-2 py-4 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Play className="w-5 h-5" />
-            Start Practice Session
+            {mode === 'mock' ? 'Start Mock Interview' : 'Start Practice Session'}
           </button>
         </motion.div>
       </motion.div>
@@ -0,0 +1,298 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Check, X, AlertTriangle, RefreshCw, Loader2, NotebookPen, RotateCcw } from 'lucide-react';
+import { Question } from '@/data/types';
+import { SessionResult, usePracticeStore, estimateTimeLimit } from '@/store/practice-store';
+import { gradeQuestion } from '@/lib/grading/client';
+import {
+  HighlightTerm,
+  HighlightTone,
+  getConceptCoverage,
+  getHighlightTerms,
+  getMissedQuestionIds,
+  highlightText,
+} from '@/lib/answer-review';
+import { describeAnswer, describeExpectedAnswer, isStructuredFormat } from '@/lib/answer-formats';
+import { GradeFeedback } from './GradeFeedback';
+import { InlineMarkdown } from './Markdown';
+import { DifficultyBadge } from './DifficultyBadge';
+
+interface SessionReviewProps {
+  onBack: () => void;
+}
+
+const selfGrades = [
+  { score: 0.25, label: 'Needs Work' },
+  { score: 0.5, label: 'Partial' },
+  { score: 0.75, label: 'Good' },
+  { score: 1, label: 'Excellent' },
+];
+
+const toneClasses: Record<HighlightTone, string> = {
+  matched: 'bg-emerald-500/20 text-emerald-300',
+  missed: 'bg-rose-500/20 text-rose-300',
+  misconception: 'bg-amber-500/20 text-amber-300 underline decoration-wavy',
+};
+
+// Every answer of a finished session next to the reference, with re-grading and notes
+export function SessionReview({ onBack }: SessionReviewProps) {
+  const { currentSession, startSessionFromQuestions } = usePracticeStore();
+  const [missedOnly, setMissedOnly] = useState(false);
+
+  if (!currentSession) return null;
+
+  const missedIds = getMissedQuestionIds(currentSession);
+  const reviewed = currentSession.questions
+    .map((question, index) => ({
+      question,
+      index,
+      result: currentSession.results.find(r => r.questionId === question.id),
+    }))
+    .filter((item): item is { question: Question; index: number; result: SessionResult } => !!item.result)
+    .filter(item => !missedOnly || missedIds.includes(item.question.id));
+
+  const retryMissed = () => {
+    const questions = currentSession.questions.filter(q => missedIds.includes(q.id));
+    startSessionFromQuestions(missedIds, `${currentSession.categoryName} (retry)`, estimateTimeLimit(questions));
+  };
+
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center gap-4">
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-white/5 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span className="hidden sm:inline">Summary</span>
+          </button>
+          <h1 className="text-2xl font-bold flex-1">Review Answers</h1>
+          <div className="flex gap-1">
+            {[false, true].map((value) => (
+              <button
+                key={String(value)}
+                onClick={() => setMissedOnly(value)}
+                className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                  missedOnly === value ? 'bg-primary text-white' : 'bg-muted hover:bg-muted/80'
+                }`}
+              >
+                {value ? `Missed (${missedIds.length})` : `All (${currentSession.results.length})`}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={retryMissed}
+            disabled={missedIds.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white text-sm font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Retry Missed
+          </button>
+        </div>
+
+        {reviewed.length === 0 ? (
+          <div className="glass rounded-2xl p-8 text-center text-muted-foreground">
+            {missedOnly ? 'Nothing scored under 75% this session.' : 'No questions were answered this session.'}
+          </div>
+        ) : (
+          reviewed.map(({ question, index, result }) => (
+            <ReviewCard key={question.id} question={question} index={index} result={result} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ReviewCard({ question, index, result }: { question: Question; index: number; result: SessionResult }) {
+  const { gradeAnswer, setResultNote } = usePracticeStore();
+  const [note, setNote] = useState(result.note ?? '');
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradeError, setGradeError] = useState<string | null>(null);
+
+  const isMultipleChoice = question.answerFormat === 'multiple-choice';
+  const isStructured = isStructuredFormat(question.answerFormat);
+  // Test-graded coding answers can only be re-run in the playground
+  const canRegrade = question.answerFormat === 'essay' && !question.tests?.length && result.userAnswer.trim() !== '';
+  const coverage = question.answerFormat === 'essay' ? getConceptCoverage(question, result.userAnswer) : null;
+  const terms = coverage ? getHighlightTerms(coverage) : { user: [], reference: [] };
+
+  const regrade = async () => {
+    setIsGrading(true);
+    setGradeError(null);
+
+    try {
+      const grade = await gradeQuestion(question, result.userAnswer);
+      gradeAnswer(question.id, grade.score, grade.feedback, {
+        source: 'auto',
+        engine: grade.engine,
+        strengths: grade.strengths,
+        improvements: grade.improvements,
+        breakdown: grade.breakdown,
+      });
+    } catch (error) {
+      console.error('Grading error:', error);
+      setGradeError('Automatic grading is unavailable. Grade your answer below.');
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass rounded-2xl p-6 space-y-4"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Q{index + 1}</span>
+        <DifficultyBadge difficulty={question.difficulty} size="sm" />
+        <span
+          className={`px-2 py-1 rounded-full text-xs font-medium ${
+            result.score >= 0.75 ? 'bg-emerald-500/10 text-emerald-400' : result.score >= 0.5 ? 'bg-amber-500/10 text-amber-400' : 'bg-rose-500/10 text-rose-400'
+          }`}
+        >
+          {Math.round(result.score * 100)}%
+        </span>
+      </div>
+
+      <h2 className="text-lg font-semibold"><InlineMarkdown text={question.question} /></h2>
+
+      {isMultipleChoice ? (
+        <div className="space-y-2 text-sm">
+          {question.options?.map((option) => {
+            const isChosen = option.id === result.userAnswer;
+            return (
+              <div
+                key={option.id}
+                className={`flex items-start gap-2 p-3 rounded-lg ${
+                  option.isCorrect ? 'bg-emerald-500/10 text-emerald-300' : isChosen ? 'bg-rose-500/10 text-rose-300' : 'bg-muted/50'
+                }`}
+              >
+                {option.isCorrect ? <Check className="w-4 h-4 mt-0.5 shrink-0" /> : isChosen ? <X className="w-4 h-4 mt-0.5 shrink-0" /> : <span className="w-4 shrink-0" />}
+                <span>
+                  <span className="font-medium mr-2">{option.id.toUpperCase()}.</span>
+                  {option.text}
+                  {isChosen && <span className="text-muted-foreground"> (your answer)</span>}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">Your answer</h3>
+              <HighlightedText
+                text={(isStructured ? describeAnswer(question, result.userAnswer) : result.userAnswer) || 'No answer given.'}
+                terms={terms.user}
+              />
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">Reference answer</h3>
+              <HighlightedText
+                text={isStructured ? `${describeExpectedAnswer(question)}\n\n${question.answer}` : question.answer}
+                terms={terms.reference}
+              />
+            </div>
+          </div>
+
+          {coverage && coverage.matches.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                {coverage.source === 'rubric' ? 'Rubric criteria' : 'Key concepts'}
+              </h3>
+              <div className="flex flex-wrap gap-2">
+                {coverage.matches.map((match) => (
+                  <span
+                    key={`${match.kind}-${match.label}`}
+                    className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs ${
+                      match.met
+                        ? 'bg-emerald-500/10 text-emerald-400'
+                        : match.kind === 'misconception' ? 'bg-amber-500/10 text-amber-400' : 'bg-rose-500/10 text-rose-400'
+                    }`}
+                  >
+                    {match.kind === 'misconception' && !match.met
+                      ? <AlertTriangle className="w-3 h-3" />
+                      : match.met ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                    {match.kind === 'misconception' ? `${match.met ? 'Avoided' : 'Misconception'}: ${match.label}` : match.label}
+                    {match.kind === 'code' && ' (code)'}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {isGrading ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Grading...
+        </p>
+      ) : (
+        <GradeFeedback result={result} />
+      )}
+      {gradeError && <p className="text-sm text-amber-400">{gradeError}</p>}
+
+      {question.answerFormat === 'essay' && (
+        <div className="flex flex-wrap items-center gap-2">
+          {canRegrade && (
+            <button
+              onClick={regrade}
+              disabled={isGrading}
+              className="flex items-center gap-1 px-3 py-1 rounded-md text-xs bg-indigo-500/20 text-indigo-300 hover:bg-indigo-500/30 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className="w-3 h-3" />
+              Re-grade
+            </button>
+          )}
+          {selfGrades.map(({ score, label }) => (
+            <button
+              key={score}
+              onClick={() => gradeAnswer(question.id, score, 'Self-graded in review.', { source: 'self' })}
+              className={`px-3 py-1 rounded-md text-xs transition-colors ${
+                result.selfScore === score ? 'bg-primary text-white' : 'bg-muted hover:bg-muted/80'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
+          <NotebookPen className="w-4 h-4" />
+          Notes
+        </label>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={() => note !== (result.note ?? '') && setResultNote(question.id, note)}
+          placeholder="What to remember next time..."
+          className="w-full h-20 p-3 rounded-lg bg-muted/50 border border-border focus:border-primary outline-none resize-none text-sm"
+        />
+      </div>
+    </motion.div>
+  );
+}
+
+function HighlightedText({ text, terms }: { text: string; terms: HighlightTerm[] }) {
+  return (
+    <p className="p-3 rounded-lg bg-muted/50 text-sm whitespace-pre-wrap break-words">
+      {highlightText(text, terms).map((segment, i) =>
+        segment.tone ? (
+          <mark key={i} className={`rounded px-0.5 ${toneClasses[segment.tone]}`}>{segment.text}</mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,322 @@
+'use client';
+
+import { Fragment } from 'react';
+import { DragEndEvent } from '@dnd-kit/core';
+import { arrayMove, useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { ArrowDown, ArrowUp, CheckCircle2, Square, SquareCheck, XCircle, GripVertical, Terminal } from 'lucide-react';
+import { Question } from '@/data/types';
+import {
+  BLANK_MARKER,
+  compareOutput,
+  decodeAnswerList,
+  encodeAnswerList,
+  initialStepOrder,
+  matchesOutput,
+  normalizeBlank,
+} from '@/lib/answer-formats';
+import { DndWrapper } from './DndWrapper';
+import { CodeBlock } from './CodeBlock';
+
+interface StructuredAnswerInputProps {
+  question: Question;
+  value: string; // Encoded answer list; empty until the user has answered
+  onChange: (value: string) => void;
+  disabled: boolean;
+  revealed: boolean; // Mark right and wrong parts once submitted (not in mock interviews)
+}
+
+// Inputs for the multi-select, ordering, fill-blank and predict-output formats
+export function StructuredAnswerInput(props: StructuredAnswerInputProps) {
+  switch (props.question.answerFormat) {
+    case 'multi-select':
+      return <MultiSelectInput {...props} />;
+    case 'ordering':
+      return <OrderingInput {...props} />;
+    case 'fill-blank':
+      return <FillBlankInput {...props} />;
+    case 'predict-output':
+      return <PredictOutputInput {...props} />;
+    default:
+      return null;
+  }
+}
+
+function MultiSelectInput({ question, value, onChange, disabled, revealed }: StructuredAnswerInputProps) {
+  const selected = decodeAnswerList(value);
+
+  const toggle = (id: string) => {
+    const next = selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id];
+    onChange(encodeAnswerList(next));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">Select all that apply.</p>
+      {question.options?.map((option) => {
+        const isSelected = selected.includes(option.id);
+        const showCorrect = revealed && option.isCorrect;
+        const showIncorrect = revealed && isSelected && !option.isCorrect;
+
+        return (
+          <button
+            key={option.id}
+            onClick={() => !disabled && toggle(option.id)}
+            disabled={disabled}
+            className={`
+              w-full p-4 rounded-lg text-left transition-all flex items-start gap-3
+              ${isSelected && !revealed ? 'bg-primary/20 border-2 border-primary' : 'bg-muted/50 border-2 border-transparent'}
+              ${showCorrect ? (isSelected ? 'bg-emerald-500/20 border-2 border-emerald-500' : 'border-2 border-dashed border-emerald-500') : ''}
+              ${showIncorrect ? 'bg-rose-500/20 border-2 border-rose-500' : ''}
+              ${!disabled ? 'hover:bg-muted cursor-pointer' : 'cursor-default'}
+              disabled:opacity-70
+            `}
+          >
+            <div className="mt-0.5">
+              {showCorrect && isSelected ? (
+                <CheckCircle2 className="w-5 h-5 text-emerald-400" />
+              ) : showIncorrect ? (
+                <XCircle className="w-5 h-5 text-rose-400" />
+              ) : isSelected ? (
+                <SquareCheck className="w-5 h-5 text-primary" />
+              ) : (
+                <Square className={`w-5 h-5 ${showCorrect ? 'text-emerald-400' : 'text-muted-foreground'}`} />
+              )}
+            </div>
+            <div className="flex-1">
+              <span className="font-medium text-muted-foreground mr-2">{option.id.toUpperCase()}.</span>
+              <span className={showCorrect ? 'text-emerald-400' : showIncorrect ? 'text-rose-400' : ''}>
+                {option.text}
+              </span>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function OrderingInput({ question, value, onChange, disabled, revealed }: StructuredAnswerInputProps) {
+  const steps = question.steps ?? [];
+  const order = value ? decodeAnswerList(value) : initialStepOrder(question);
+
+  const move = (from: number, to: number) => {
+    if (disabled || to < 0 || to >= order.length) return;
+    onChange(encodeAnswerList(arrayMove(order, from, to)));
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    move(order.indexOf(String(active.id)), order.indexOf(String(over.id)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">Drag the steps into order, or use the arrows.</p>
+      <DndWrapper items={order} onDragEnd={handleDragEnd}>
+        {order.map((id, index) => {
+          const step = steps.find(s => s.id === id);
+          if (!step) return null;
+          return (
+            <SortableStep
+              key={id}
+              id={id}
+              index={index}
+              text={step.text}
+              disabled={disabled}
+              isLast={index === order.length - 1}
+              placement={revealed ? (steps[index]?.id === id ? 'correct' : 'wrong') : undefined}
+              onMove={(to) => move(index, to)}
+            />
+          );
+        })}
+      </DndWrapper>
+    </div>
+  );
+}
+
+interface SortableStepProps {
+  id: string;
+  index: number;
+  text: string;
+  disabled: boolean;
+  isLast: boolean;
+  placement?: 'correct' | 'wrong';
+  onMove: (to: number) => void;
+}
+
+function SortableStep({ id, index, text, disabled, isLast, placement, onMove }: SortableStepProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id, disabled });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={`
+        flex items-center gap-3 p-3 rounded-lg border-2
+        ${placement === 'correct' ? 'bg-emerald-500/10 border-emerald-500' : placement === 'wrong' ? 'bg-rose-500/10 border-rose-500' : 'bg-muted/50 border-transparent'}
+      `}
+    >
+      <button
+        {...attributes}
+        {...listeners}
+        disabled={disabled}
+        className="text-muted-foreground cursor-grab disabled:cursor-default"
+        aria-label="Drag to reorder"
+      >
+        <GripVertical className="w-4 h-4" />
+      </button>
+      <span className="w-6 font-medium text-muted-foreground">{index + 1}.</span>
+      <span className="flex-1 text-sm">{text}</span>
+      {!disabled && (
+        <div className="flex gap-1">
+          <button
+            onClick={() => onMove(index - 1)}
+            disabled={index === 0}
+            className="p-1 rounded hover:bg-white/5 disabled:opacity-30"
+            aria-label="Move up"
+          >
+            <ArrowUp className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onMove(index + 1)}
+            disabled={isLast}
+            className="p-1 rounded hover:bg-white/5 disabled:opacity-30"
+            aria-label="Move down"
+          >
+            <ArrowDown className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FillBlankInput({ question, value, onChange, disabled, revealed }: StructuredAnswerInputProps) {
+  const blanks = question.blanks ?? [];
+  const values = decodeAnswerList(value);
+  const parts = question.question.split(BLANK_MARKER);
+
+  const update = (index: number, text: string) => {
+    const next = blanks.map((_, i) => (i === index ? text : values[i] ?? ''));
+    onChange(encodeAnswerList(next));
+  };
+
+  const isAccepted = (index: number) =>
+    blanks[index]?.accepted.some(variant => normalizeBlank(variant) === normalizeBlank(values[index] ?? ''));
+
+  return (
+    <div className="p-4 rounded-lg bg-muted/50 leading-loose">
+      {parts.map((part, index) => (
+        <Fragment key={index}>
+          <span className="whitespace-pre-wrap">{part}</span>
+          {index < parts.length - 1 && (
+            <>
+              <input
+                value={values[index] ?? ''}
+                onChange={(e) => update(index, e.target.value)}
+                disabled={disabled}
+                aria-label={`Blank ${index + 1}`}
+                className={`
+                  inline-block w-40 mx-1 px-2 py-0.5 rounded-md bg-background border outline-none font-mono text-sm
+                  ${revealed ? (isAccepted(index) ? 'border-emerald-500 text-emerald-400' : 'border-rose-500 text-rose-400') : 'border-border focus:border-primary'}
+                `}
+              />
+              {revealed && !isAccepted(index) && blanks[index] && (
+                <span className="text-xs text-emerald-400">({blanks[index].accepted[0]})</span>
+              )}
+            </>
+          )}
+        </Fragment>
+      ))}
+    </div>
+  );
+}
+
+function PredictOutputInput({ question, value, onChange, disabled, revealed }: StructuredAnswerInputProps) {
+  const predicted = decodeAnswerList(value);
+  const text = predicted.join('\n');
+  const pick = (output: string) => onChange(encodeAnswerList(output.split('\n')));
+
+  return (
+    <div className="space-y-3">
+      {question.codeExample && <CodeBlock code={question.codeExample} />}
+
+      {question.options && question.options.length > 0 && !disabled && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Pick an output to start from, or type your own.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {question.options.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => pick(option.text)}
+                className={`p-3 rounded-lg text-left font-mono text-xs whitespace-pre-wrap transition-colors border-2 ${
+                  matchesOutput(option.text, predicted)
+                    ? 'bg-primary/20 border-primary'
+                    : 'bg-muted/50 border-transparent hover:bg-muted'
+                }`}
+              >
+                {option.text}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {revealed ? (
+        <OutputComparison expected={question.expectedOutput ?? []} predicted={predicted} />
+      ) : (
+        <>
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Terminal className="w-4 h-4" />
+            What does this code log? One line per console call, formatted as Node prints it.
+          </p>
+          <textarea
+            value={text}
+            onChange={(e) => onChange(encodeAnswerList(e.target.value.split('\n')))}
+            disabled={disabled}
+            placeholder={'first line\nsecond line'}
+            spellCheck={false}
+            className="w-full h-36 p-4 rounded-lg bg-muted/50 border border-border focus:border-primary focus:ring-1 focus:ring-primary outline-none resize-none font-mono text-sm transition-colors disabled:opacity-50"
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+function OutputComparison({ expected, predicted }: { expected: string[]; predicted: string[] }) {
+  const lines = compareOutput(expected, predicted);
+
+  if (lines.length === 0) {
+    return <p className="p-4 rounded-lg bg-emerald-500/10 text-sm text-emerald-400">Nothing is logged, as you predicted.</p>;
+  }
+
+  return (
+    <div className="rounded-lg bg-muted/50 p-2 font-mono text-sm overflow-x-auto">
+      <div className="grid grid-cols-[auto_1fr_1fr] gap-x-4 gap-y-1 px-2 pb-1 text-xs font-sans text-muted-foreground">
+        <span>#</span>
+        <span>Your prediction</span>
+        <span>Actual output</span>
+      </div>
+      {lines.map((line, i) => (
+        <div
+          key={i}
+          className={`grid grid-cols-[auto_1fr_1fr] gap-x-4 px-2 py-1 rounded ${
+            line.matches ? 'bg-emerald-500/10 text-emerald-300' : 'bg-rose-500/10 text-rose-300'
+          }`}
+        >
+          <span className="text-muted-foreground">{i + 1}</span>
+          <span className="whitespace-pre-wrap">{line.actual ?? '(nothing)'}</span>
+          <span className="whitespace-pre-wrap">{line.expected ?? '(nothing)'}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,134 +1,98 @@
-import { Question, Category, AnswerFormat } from '../types';
-import { reactCoreQuestions } from './react-core';
-import { hooksQuestions } from './hooks';
-import { nextjsQuestions } from './nextjs';
-import { optimizationQuestions } from './optimization';
-import { securityQuestions } from './security';
-import { debuggingQuestions } from './debugging';
-import { stateManagementQuestions } from './state-management';
-import { codeOrganizationQuestions } from './code-organization';
+import { useMemo } from 'react';
+import { Question, QuestionBank, Category, AnswerFormat } from '../types';
+import { rankQuestions } from '@/lib/search';
+import { Random, shuffle } from '@/lib/random';
+import { CustomCategory, useCustomQuestionStore } from '@/store/custom-question-store';
+import { contentBanks } from './content.generated';
+
+// One bank per content/questions/<category> directory, in dashboard order
+export const questionBanks: QuestionBank[] = contentBanks.map(({ category, questions }) => ({
+  categoryId: category.id,
+  dir: `content/questions/${category.id}`,
+  label: category.label,
+  questions,
+}));
 
 // Combine all questions
-export const allQuestions: Question[] = [
-  ...reactCoreQuestions,
-  ...hooksQuestions,
-  ...nextjsQuestions,
-  ...optimizationQuestions,
-  ...securityQuestions,
-  ...debuggingQuestions,
-  ...stateManagementQuestions,
-  ...codeOrganizationQuestions,
-];
-
-// Category definitions with metadata
-export const categories: Category[] = [
-  {
-    id: 'react-core',
-    name: 'React Core',
-    description: 'Fundamental React concepts, JSX, components, virtual DOM, and reconciliation',
-    icon: '⚛️',
-    color: '#61DAFB',
-    questionCount: reactCoreQuestions.length,
-  },
-  {
-    id: 'hooks',
-    name: 'React Hooks',
-    description: 'useState, useEffect, useRef, useMemo, useCallback, custom hooks, and rules',
-    icon: '🪝',
-    color: '#764ABC',
-    questionCount: hooksQuestions.length,
-  },
-  {
-    id: 'nextjs',
-    name: 'Next.js',
-    description: 'App Router, Server Components, SSR, SSG, ISR, routing, and middleware',
-    icon: '▲',
-    color: '#ffffff',
-    questionCount: nextjsQuestions.length,
-  },
-  {
-    id: 'optimization',
-    name: 'Performance & Optimization',
-    description: 'Re-renders, memoization, code splitting, virtualization, and Web Vitals',
-    icon: '⚡',
-    color: '#F59E0B',
-    questionCount: optimizationQuestions.length,
-  },
-  {
-    id: 'security',
-    name: 'Security',
-    description: 'XSS prevention, CSRF, authentication, authorization, and secure storage',
-    icon: '🔒',
-    color: '#EF4444',
-    questionCount: securityQuestions.length,
-  },
-  {
-    id: 'debugging',
-    name: 'Debugging',
-    description: 'DevTools, memory leaks, hydration errors, performance profiling',
-    icon: '🐛',
-    color: '#10B981',
-    questionCount: debuggingQuestions.length,
-  },
-  {
-    id: 'state-management',
-    name: 'State Management',
-    description: 'Redux, Zustand, Context API, TanStack Query, and async state',
-    icon: '🗃️',
-    color: '#8B5CF6',
-    questionCount: stateManagementQuestions.length,
-  },
-  {
-    id: 'code-organization',
-    name: 'Code Organization',
-    description: 'Folder structure, component patterns, TypeScript, error handling',
-    icon: '📁',
-    color: '#3B82F6',
-    questionCount: codeOrganizationQuestions.length,
-  },
-];
+export const allQuestions: Question[] = questionBanks.flatMap(bank => bank.questions);
+
+// Imported and authored questions, persisted in the browser
+export function getCustomQuestions(): Question[] {
+  return useCustomQuestionStore.getState().questions;
+}
+
+// Built-in banks followed by custom questions
+export function getAllQuestions(): Question[] {
+  const custom = getCustomQuestions();
+  return custom.length > 0 ? [...allQuestions, ...custom] : allQuestions;
+}
+
+// Built-in category definitions; counts cover the content banks only
+export const categories: Category[] = contentBanks.map(({ category, questions }) => ({
+  id: category.id,
+  name: category.name,
+  label: category.label,
+  description: category.description,
+  icon: category.icon,
+  color: category.color,
+  questionCount: questions.length,
+}));
+
+// Custom questions join a category when their `category` is its label or ID
+function questionsInCategory(categoryId: string, customCategories: CustomCategory[], customQuestions: Question[]): Question[] {
+  const bank = questionBanks.find(b => b.categoryId === categoryId);
+  const label = bank?.label ?? customCategories.find(c => c.id === categoryId)?.name;
+  const custom = customQuestions.filter(q => q.category === categoryId || (label !== undefined && q.category === label));
+  const builtIn = bank?.questions || [];
+  return custom.length > 0 ? [...builtIn, ...custom] : builtIn;
+}
+
+// Built-in categories followed by user-defined ones, with counts that include custom questions
+export function buildCategories(customCategories: CustomCategory[], customQuestions: Question[]): Category[] {
+  const userCategories: Category[] = customCategories.map(category => ({
+    ...category,
+    label: category.name,
+    questionCount: 0,
+    isCustom: true,
+  }));
+
+  return [...categories, ...userCategories].map(category => ({
+    ...category,
+    questionCount: questionsInCategory(category.id, customCategories, customQuestions).length,
+  }));
+}
+
+export function getCategories(): Category[] {
+  const { categories: customCategories, questions } = useCustomQuestionStore.getState();
+  return buildCategories(customCategories, questions);
+}
 
 // Helper functions
 export function getQuestionsByCategory(categoryId: string): Question[] {
-  const categoryMap: Record<string, Question[]> = {
-    'react-core': reactCoreQuestions,
-    'hooks': hooksQuestions,
-    'nextjs': nextjsQuestions,
-    'optimization': optimizationQuestions,
-    'security': securityQuestions,
-    'debugging': debuggingQuestions,
-    'state-management': stateManagementQuestions,
-    'code-organization': codeOrganizationQuestions,
-  };
-  
-  return categoryMap[categoryId] || [];
+  const { categories: customCategories, questions } = useCustomQuestionStore.getState();
+  return questionsInCategory(categoryId, customCategories, questions);
 }
 
 export function getQuestionsByDifficulty(difficulty: Question['difficulty']): Question[] {
-  return allQuestions.filter(q => q.difficulty === difficulty);
+  return getAllQuestions().filter(q => q.difficulty === difficulty);
 }
 
-export function getRandomQuestions(count: number, categoryId?: string): Question[] {
-  const source = categoryId ? getQuestionsByCategory(categoryId) : allQuestions;
-  const shuffled = [...source].sort(() => Math.random() - 0.5);
-  return shuffled.slice(0, count);
+export function getRandomQuestions(count: number, categoryId?: string, random: Random = Math.random): Question[] {
+  const source = categoryId ? getQuestionsByCategory(categoryId) : getAllQuestions();
+  return shuffle(source, random).slice(0, count);
 }
 
 export function getQuestionById(id: string): Question | undefined {
-  return allQuestions.find(q => q.id === id);
+  return allQuestions.find(q => q.id === id) ?? getCustomQuestions().find(q => q.id === id);
 }
 
+// Ranked full-text search over question, answer, tags and codeExample
 export function searchQuestions(query: string): Question[] {
-  const lowerQuery = query.toLowerCase();
-  return allQuestions.filter(q => 
-    q.question.toLowerCase().includes(lowerQuery) ||
-    q.answer.toLowerCase().includes(lowerQuery) ||
-    q.tags.some(tag => tag.toLowerCase().includes(lowerQuery))
-  );
+  return rankQuestions(getAllQuestions(), query).map(hit => hit.question);
 }
 
 export function getQuestionsByFormat(format: AnswerFormat): Question[] {
-  return allQuestions.filter(q => q.answerFormat === format);
+  return getAllQuestions().filter(q => q.answerFormat === format);
 }
 
 export function getQuestionsByCategoryAndFormat(categoryId: string, format: AnswerFormat): Question[] {
@@ -137,26 +101,62 @@ export function getQuestionsByCategoryAndFormat(categoryId: string, format: Answ
 }
 
 // Statistics
-export const stats = {
-  totalQuestions: allQuestions.length,
-  byDifficulty: {
-    beginner: allQuestions.filter(q => q.difficulty === 'beginner').length,
-    intermediate: allQuestions.filter(q => q.difficulty === 'intermediate').length,
-    senior: allQuestions.filter(q => q.difficulty === 'senior').length,
-    expert: allQuestions.filter(q => q.difficulty === 'expert').length,
-  },
-  byType: {
-    conceptual: allQuestions.filter(q => q.type === 'conceptual').length,
-    coding: allQuestions.filter(q => q.type === 'coding').length,
-    debugging: allQuestions.filter(q => q.type === 'debugging').length,
-    'system-design': allQuestions.filter(q => q.type === 'system-design').length,
-  },
-  byFormat: {
-    essay: allQuestions.filter(q => q.answerFormat === 'essay').length,
-    'multiple-choice': allQuestions.filter(q => q.answerFormat === 'multiple-choice').length,
-  },
-  totalCategories: categories.length,
-};
+export function computeQuestionStats(questions: Question[], categoryCount: number) {
+  return {
+    totalQuestions: questions.length,
+    byDifficulty: {
+      beginner: questions.filter(q => q.difficulty === 'beginner').length,
+      intermediate: questions.filter(q => q.difficulty === 'intermediate').length,
+      senior: questions.filter(q => q.difficulty === 'senior').length,
+      expert: questions.filter(q => q.difficulty === 'expert').length,
+    },
+    byType: {
+      conceptual: questions.filter(q => q.type === 'conceptual').length,
+      coding: questions.filter(q => q.type === 'coding').length,
+      debugging: questions.filter(q => q.type === 'debugging').length,
+      'system-design': questions.filter(q => q.type === 'system-design').length,
+    },
+    byFormat: {
+      essay: questions.filter(q => q.answerFormat === 'essay').length,
+      'multiple-choice': questions.filter(q => q.answerFormat === 'multiple-choice').length,
+      'multi-select': questions.filter(q => q.answerFormat === 'multi-select').length,
+      ordering: questions.filter(q => q.answerFormat === 'ordering').length,
+      'fill-blank': questions.filter(q => q.answerFormat === 'fill-blank').length,
+      'predict-output': questions.filter(q => q.answerFormat === 'predict-output').length,
+    },
+    totalCategories: categoryCount,
+  };
+}
+
+export type QuestionStats = ReturnType<typeof computeQuestionStats>;
+
+// React bindings: these re-render when custom questions or categories change
+export function useCategories(): Category[] {
+  const customCategories = useCustomQuestionStore(state => state.categories);
+  const customQuestions = useCustomQuestionStore(state => state.questions);
+  return useMemo(() => buildCategories(customCategories, customQuestions), [customCategories, customQuestions]);
+}
+
+// 'all' selects every question
+export function useCategoryQuestions(categoryId: string): Question[] {
+  const customCategories = useCustomQuestionStore(state => state.categories);
+  const customQuestions = useCustomQuestionStore(state => state.questions);
+  return useMemo(
+    () => categoryId === 'all'
+      ? [...allQuestions, ...customQuestions]
+      : questionsInCategory(categoryId, customCategories, customQuestions),
+    [categoryId, customCategories, customQuestions]
+  );
+}
+
+export function useQuestionStats(): QuestionStats {
+  const customCategories = useCustomQuestionStore(state => state.categories);
+  const customQuestions = useCustomQuestionStore(state => state.questions);
+  return useMemo(
+    () => computeQuestionStats([...allQuestions, ...customQuestions], categories.length + customCategories.length),
+    [customCategories, customQuestions]
+  );
+}
 
 
 
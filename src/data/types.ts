@@ -1,6 +1,6 @@
 export type Difficulty = 'beginner' | 'intermediate' | 'senior' | 'expert';
 export type QuestionType = 'conceptual' | 'coding' | 'debugging' | 'system-design';
-export type AnswerFormat = 'essay' | 'multiple-choice';
+export type AnswerFormat = 'essay' | 'multiple-choice' | 'multi-select' | 'ordering' | 'fill-blank' | 'predict-output';
 
 export interface MultipleChoiceOption {
   id: string;
@@ -8,6 +8,61 @@ export interface MultipleChoiceOption {
   isCorrect: boolean;
 }
 
+export interface OrderingStep {
+  id: string;
+  text: string;
+}
+
+// One per `___` in the question text, in the same order
+export interface FillBlank {
+  accepted: string[]; // Every accepted variant; matched ignoring case, spacing and backticks
+}
+
+export interface CodeTest {
+  name: string;
+  code: string; // Jest test body; `solution` (module exports), `App` and Testing Library helpers are in scope
+}
+
+export interface RubricConcept {
+  id: string;
+  label: string;
+  weight: number; // Relative weight; normalized across the rubric
+  synonyms?: string[];
+}
+
+export interface RubricMisconception {
+  id: string;
+  label: string;
+  phrases: string[]; // Any of these in the answer triggers the penalty
+  penalty: number; // Fraction of the total score (0-1) deducted
+  explanation?: string;
+}
+
+export interface RubricCodePattern {
+  id: string;
+  label: string;
+  pattern: string; // RegExp source the answer must match
+  flags?: string;
+  weight: number;
+}
+
+export interface Rubric {
+  concepts: RubricConcept[];
+  misconceptions?: RubricMisconception[];
+  requiredCode?: RubricCodePattern[];
+}
+
+export type RubricCriterionKind = 'concept' | 'misconception' | 'code';
+
+export interface RubricCriterionResult {
+  id: string;
+  kind: RubricCriterionKind;
+  label: string;
+  met: boolean; // For misconceptions: true when the answer avoided it
+  points: number; // Earned share of the score; negative for a triggered misconception
+  maxPoints: number;
+}
+
 export interface Question {
   id: string;
   category: string;
@@ -17,9 +72,17 @@ export interface Question {
   difficulty: Difficulty;
   type: QuestionType;
   answerFormat: AnswerFormat;
-  options?: MultipleChoiceOption[]; // For multiple-choice questions
+  options?: MultipleChoiceOption[]; // For multiple-choice and multi-select questions; candidate outputs for predict-output
+  steps?: OrderingStep[]; // For ordering questions, in the correct order
+  blanks?: FillBlank[]; // For fill-in-the-blank questions
+  expectedOutput?: string[]; // For predict-output questions: the lines `codeExample` logs
   codeExample?: string;
+  starterCode?: string; // Coding questions: initial contents of the playground's App.tsx
+  tests?: CodeTest[]; // Coding questions: pass ratio becomes the score
+  reactVersion?: string; // Coding questions: React version for the playground sandbox
   followUp?: string[];
+  followUpAnswers?: string[]; // Reference answers for `followUp`, by position; follow-ups without one are shown ungraded
+  rubric?: Rubric; // Grading criteria; keyword matching is used when absent
   tags: string[];
   timeEstimate: number; // in minutes
 }
@@ -27,10 +90,30 @@ export interface Question {
 export interface Category {
   id: string;
   name: string;
+  label: string; // `category` string its questions use
   description: string;
   icon: string;
   color: string;
   questionCount: number;
+  isCustom?: boolean; // Created in the app rather than loaded from content
+}
+
+// Category metadata as stored in content/questions/<id>/_category.md
+export interface CategoryContent {
+  id: string;
+  name: string;
+  label: string; // `category` string every question in the category uses
+  description: string;
+  icon: string;
+  color: string;
+  order: number; // Position on the dashboard
+}
+
+export interface QuestionBank {
+  categoryId: string;
+  dir: string; // Content directory holding one <id>.md per question
+  label: string; // `category` string every question in the bank uses
+  questions: Question[];
 }
 
 export interface SessionResult {
@@ -41,6 +124,25 @@ export interface SessionResult {
   timeTaken: number;
 }
 
+export type GraderEngine = 'keyword' | 'rubric' | 'llm';
+
+export interface GradeRequest {
+  questionId?: string;
+  question: string;
+  userAnswer: string;
+  correctAnswer: string;
+}
+
+export interface GradeResponse {
+  score: number; // 0-1
+  feedback: string;
+  strengths: string[];
+  improvements: string[];
+  breakdown?: RubricCriterionResult[]; // Per-criterion results from the rubric grader
+  engine: GraderEngine; // Engine that produced the score
+  fallbackFrom?: GraderEngine; // Configured engine, when it was unavailable
+}
+
 export interface PracticeSession {
   id: string;
   startTime: Date;
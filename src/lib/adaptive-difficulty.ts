@@ -0,0 +1,33 @@
+import { Difficulty, Question } from '@/data/types';
+import { Random } from './random';
+
+export const difficultyLevels: Difficulty[] = ['beginner', 'intermediate', 'senior', 'expert'];
+
+const STEP_UP_SCORE = 0.75;
+const STEP_DOWN_SCORE = 0.5;
+
+// Moves one level up after a strong answer and one level down after a weak one
+export function nextDifficulty(current: Difficulty, score: number | undefined): Difficulty {
+  const index = difficultyLevels.indexOf(current);
+  if (score === undefined) return current;
+  if (score >= STEP_UP_SCORE) return difficultyLevels[Math.min(index + 1, difficultyLevels.length - 1)];
+  if (score < STEP_DOWN_SCORE) return difficultyLevels[Math.max(index - 1, 0)];
+  return current;
+}
+
+// Picks a random question at the target level, or the closest level that still has questions
+export function pickQuestionNear(pool: Question[], target: Difficulty, random: Random = Math.random): Question | undefined {
+  const targetIndex = difficultyLevels.indexOf(target);
+  const byDistance = [...difficultyLevels].sort(
+    (a, b) => Math.abs(difficultyLevels.indexOf(a) - targetIndex) - Math.abs(difficultyLevels.indexOf(b) - targetIndex)
+  );
+
+  for (const level of byDistance) {
+    const candidates = pool.filter(q => q.difficulty === level);
+    if (candidates.length > 0) {
+      return candidates[Math.floor(random() * candidates.length)];
+    }
+  }
+
+  return undefined;
+}
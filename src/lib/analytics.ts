@@ -0,0 +1,183 @@
+// Progress analytics over graded answers in the session history
+
+import { Difficulty, Question, QuestionType } from '@/data/types';
+import { PracticeSession, QuestionSnapshot, SessionResult } from '@/store/practice-store';
+import { difficultyLevels } from './adaptive-difficulty';
+
+export interface AnswerRecord extends QuestionSnapshot {
+  questionId: string;
+  sessionId: string;
+  answeredAt: Date; // Session start; results carry no timestamp of their own
+  score: number; // 0-1
+  timeTaken: number; // in seconds
+}
+
+export interface TrendPoint {
+  sessionId: string;
+  date: Date;
+  score: number; // 0-100, mean of the session's answers in the category
+  answers: number;
+}
+
+export interface CategoryTrend {
+  category: string;
+  points: TrendPoint[]; // Oldest first
+  averageScore: number; // 0-100
+}
+
+export interface GroupScore {
+  key: string;
+  answers: number;
+  averageScore: number; // 0-100
+}
+
+export interface TimeBucket {
+  label: string;
+  min: number; // Ratio of time taken to timeEstimate, inclusive
+  max: number; // Exclusive
+  count: number;
+}
+
+export interface TimeDistribution {
+  buckets: TimeBucket[];
+  medianRatio: number; // 1 means answers take exactly the estimated time
+  overEstimate: number; // Share of answers (0-1) that took longer than estimated
+}
+
+export const questionTypes: QuestionType[] = ['conceptual', 'coding', 'debugging', 'system-design'];
+
+const timeBuckets: Omit<TimeBucket, 'count'>[] = [
+  { label: '< 25%', min: 0, max: 0.25 },
+  { label: '25-50%', min: 0.25, max: 0.5 },
+  { label: '50-100%', min: 0.5, max: 1 },
+  { label: '100-150%', min: 1, max: 1.5 },
+  { label: '150-200%', min: 1.5, max: 2 },
+  { label: '> 200%', min: 2, max: Infinity },
+];
+
+// Results get feedback once graded, whether automatically or by the user
+export function isResultGraded(result: SessionResult): boolean {
+  return result.feedback !== '' || result.autoScore !== undefined || result.selfScore !== undefined;
+}
+
+const toPercent = (score: number) => Math.round(score * 100);
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Graded answers with their question facts; results from before snapshots were kept
+// fall back to the current question, and are skipped if it no longer exists
+export function collectAnswers(
+  sessions: PracticeSession[],
+  lookup: (id: string) => Question | undefined
+): AnswerRecord[] {
+  const records: AnswerRecord[] = [];
+
+  sessions.forEach(session => {
+    const answeredAt = new Date(session.startTime);
+    session.results.filter(isResultGraded).forEach(result => {
+      const snapshot: QuestionSnapshot | undefined = result.snapshot ?? lookup(result.questionId);
+      if (!snapshot) return;
+
+      records.push({
+        category: snapshot.category,
+        subcategory: snapshot.subcategory,
+        difficulty: snapshot.difficulty,
+        type: snapshot.type,
+        tags: snapshot.tags,
+        timeEstimate: snapshot.timeEstimate,
+        questionId: result.questionId,
+        sessionId: session.id,
+        answeredAt,
+        score: result.score,
+        timeTaken: result.timeTaken,
+      });
+    });
+  });
+
+  return records.sort((a, b) => a.answeredAt.getTime() - b.answeredAt.getTime());
+}
+
+// One point per session that touched the category, so mixed sessions count toward each category
+export function getCategoryTrends(records: AnswerRecord[]): CategoryTrend[] {
+  const byCategory = new Map<string, Map<string, AnswerRecord[]>>();
+  records.forEach(record => {
+    const sessions = byCategory.get(record.category) ?? new Map<string, AnswerRecord[]>();
+    sessions.set(record.sessionId, [...(sessions.get(record.sessionId) ?? []), record]);
+    byCategory.set(record.category, sessions);
+  });
+
+  return [...byCategory.entries()]
+    .map(([category, sessions]) => {
+      const points = [...sessions.entries()]
+        .map(([sessionId, answers]) => ({
+          sessionId,
+          date: answers[0].answeredAt,
+          score: toPercent(mean(answers.map(a => a.score))),
+          answers: answers.length,
+        }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+      const answers = [...sessions.values()].flat();
+      return { category, points, averageScore: toPercent(mean(answers.map(a => a.score))) };
+    })
+    .sort((a, b) => a.category.localeCompare(b.category));
+}
+
+function groupScores(records: AnswerRecord[], keysOf: (record: AnswerRecord) => string[]): GroupScore[] {
+  const groups = new Map<string, number[]>();
+  records.forEach(record => {
+    keysOf(record).forEach(key => groups.set(key, [...(groups.get(key) ?? []), record.score]));
+  });
+
+  return [...groups.entries()].map(([key, scores]) => ({
+    key,
+    answers: scores.length,
+    averageScore: toPercent(mean(scores)),
+  }));
+}
+
+// Lowest average first; groups with fewer than `minAnswers` are too noisy to rank
+export function getWeakestGroups(
+  records: AnswerRecord[],
+  by: 'tags' | 'subcategory',
+  { minAnswers = 2, limit = 8 }: { minAnswers?: number; limit?: number } = {}
+): GroupScore[] {
+  const keysOf = by === 'tags'
+    ? (record: AnswerRecord) => [...new Set(record.tags)]
+    : (record: AnswerRecord) => (record.subcategory ? [record.subcategory] : []);
+
+  return groupScores(records, keysOf)
+    .filter(group => group.answers >= minAnswers)
+    .sort((a, b) => a.averageScore - b.averageScore || b.answers - a.answers)
+    .slice(0, limit);
+}
+
+// Every level or type in its usual order, including ones with no answers yet
+export function getAccuracyBy(records: AnswerRecord[], by: 'difficulty' | 'type'): GroupScore[] {
+  const order: string[] = by === 'difficulty' ? difficultyLevels : questionTypes;
+  const scores = groupScores(records, record => [record[by]]);
+  return order.map(key => scores.find(group => group.key === key) ?? { key, answers: 0, averageScore: 0 });
+}
+
+export function getTimeDistribution(records: AnswerRecord[], difficulty?: Difficulty): TimeDistribution {
+  const ratios = records
+    .filter(record => record.timeEstimate > 0 && (!difficulty || record.difficulty === difficulty))
+    .map(record => record.timeTaken / (record.timeEstimate * 60))
+    .sort((a, b) => a - b);
+
+  const buckets = timeBuckets.map(bucket => ({
+    ...bucket,
+    count: ratios.filter(ratio => ratio >= bucket.min && ratio < bucket.max).length,
+  }));
+
+  if (ratios.length === 0) {
+    return { buckets, medianRatio: 0, overEstimate: 0 };
+  }
+
+  const middle = Math.floor(ratios.length / 2);
+  const medianRatio = ratios.length % 2 ? ratios[middle] : (ratios[middle - 1] + ratios[middle]) / 2;
+  return {
+    buckets,
+    medianRatio,
+    overEstimate: ratios.filter(ratio => ratio > 1).length / ratios.length,
+  };
+}
@@ -0,0 +1,232 @@
+// Structured answer formats: how their answers are stored, and partial-credit grading
+
+import { AnswerFormat, Question } from '@/data/types';
+import { roundScore } from './grading/feedback';
+
+export const answerFormatLabels: Record<AnswerFormat, string> = {
+  essay: 'Essay',
+  'multiple-choice': 'Multiple Choice',
+  'multi-select': 'Select All',
+  ordering: 'Ordering',
+  'fill-blank': 'Fill in the Blank',
+  'predict-output': 'Predict the Output',
+};
+
+export const answerFormats = Object.keys(answerFormatLabels) as AnswerFormat[];
+
+// `___` marks each blank in a fill-in-the-blank question
+export const BLANK_MARKER = '___';
+
+export function countBlanks(text: string): number {
+  return text.split(BLANK_MARKER).length - 1;
+}
+
+export interface StructuredGrade {
+  score: number; // 0-1
+  feedback: string;
+  strengths: string[];
+  improvements: string[];
+}
+
+// Graded in the browser against the question's own key rather than by /api/grade
+export function isStructuredFormat(format: AnswerFormat): boolean {
+  return format === 'multi-select' || format === 'ordering' || format === 'fill-blank' || format === 'predict-output';
+}
+
+// Structured answers are kept in `userAnswer` as a JSON list: selected option IDs, step IDs
+// in the chosen order, one entry per blank, or one predicted console line per entry
+export function encodeAnswerList(values: string[]): string {
+  return JSON.stringify(values);
+}
+
+export function decodeAnswerList(answer: string): string[] {
+  try {
+    const values = JSON.parse(answer);
+    return Array.isArray(values) ? values.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// A fixed scramble per question, so the starting order survives reloads and is never already solved
+export function initialStepOrder(question: Question): string[] {
+  const steps = question.steps ?? [];
+  // FNV-1a, so IDs that differ only in their last character still land far apart
+  const hash = (text: string) =>
+    [...text].reduce((h, c) => Math.imul(h ^ c.charCodeAt(0), 16777619), 2166136261) >>> 0;
+  const order = [...steps]
+    .sort((a, b) => hash(`${question.id}:${a.id}`) - hash(`${question.id}:${b.id}`))
+    .map(step => step.id);
+  return steps.length > 1 && order.every((id, i) => id === steps[i].id) ? order.reverse() : order;
+}
+
+// Readable form of a stored answer, for reviews and debriefs
+export function describeAnswer(question: Question, answer: string): string {
+  const values = decodeAnswerList(answer);
+  switch (question.answerFormat) {
+    case 'multi-select':
+      return values.map(id => question.options?.find(o => o.id === id)?.text ?? id).join('; ');
+    case 'ordering':
+      return values.map((id, i) => `${i + 1}. ${question.steps?.find(s => s.id === id)?.text ?? id}`).join('\n');
+    case 'fill-blank':
+      return values.map((value, i) => `${i + 1}. ${value}`).join('\n');
+    case 'predict-output':
+      return trimOutput(values).join('\n');
+    default:
+      return answer;
+  }
+}
+
+// The expected answer in the same form as describeAnswer
+export function describeExpectedAnswer(question: Question): string {
+  switch (question.answerFormat) {
+    case 'multi-select':
+      return (question.options ?? []).filter(o => o.isCorrect).map(o => o.text).join('; ');
+    case 'ordering':
+      return (question.steps ?? []).map((step, i) => `${i + 1}. ${step.text}`).join('\n');
+    case 'fill-blank':
+      return (question.blanks ?? []).map((blank, i) => `${i + 1}. ${blank.accepted.join(' / ')}`).join('\n');
+    case 'predict-output':
+      return (question.expectedOutput ?? []).join('\n');
+    default:
+      return question.answer;
+  }
+}
+
+function summarize(score: number, feedback: string, strengths: string[], improvements: string[]): StructuredGrade {
+  return { score: roundScore(score), feedback, strengths, improvements };
+}
+
+// Each correct pick earns its share; each wrong pick takes one back, so selecting everything scores nothing
+function gradeMultiSelect(question: Question, selected: string[]): StructuredGrade {
+  const options = question.options ?? [];
+  const correct = options.filter(o => o.isCorrect);
+  const hits = correct.filter(o => selected.includes(o.id));
+  const wrong = options.filter(o => !o.isCorrect && selected.includes(o.id));
+  const missed = correct.filter(o => !selected.includes(o.id));
+
+  return summarize(
+    Math.max(0, (hits.length - wrong.length) / Math.max(correct.length, 1)),
+    `${hits.length} of ${correct.length} correct options selected`
+      + (wrong.length > 0 ? `, ${wrong.length} incorrect ${wrong.length === 1 ? 'option' : 'options'} selected.` : '.'),
+    hits.length > 0 ? [`Selected: ${hits.map(o => o.text).join('; ')}`] : [],
+    [
+      ...(missed.length > 0 ? [`Missed: ${missed.map(o => o.text).join('; ')}`] : []),
+      ...(wrong.length > 0 ? [`Not correct: ${wrong.map(o => o.text).join('; ')}`] : []),
+    ]
+  );
+}
+
+// Scored by the share of step pairs in the right relative order, so one misplaced step costs little
+function gradeOrdering(question: Question, order: string[]): StructuredGrade {
+  const steps = question.steps ?? [];
+  const rank = new Map(steps.map((step, i) => [step.id, i]));
+  const chosen = order.filter(id => rank.has(id));
+
+  let pairs = 0;
+  let inOrder = 0;
+  for (let i = 0; i < chosen.length; i++) {
+    for (let j = i + 1; j < chosen.length; j++) {
+      pairs++;
+      if (rank.get(chosen[i])! < rank.get(chosen[j])!) inOrder++;
+    }
+  }
+
+  const misplaced = steps.filter((step, i) => chosen[i] !== step.id);
+  const inPlace = steps.length - misplaced.length;
+  const score = chosen.length === steps.length && pairs > 0 ? inOrder / pairs : 0;
+
+  return summarize(
+    score,
+    `${inPlace} of ${steps.length} steps in the right position.`,
+    inPlace > 0 ? [`${inOrder} of ${pairs} step pairs in the right order`] : [],
+    misplaced.map(step => `"${step.text}" belongs at position ${rank.get(step.id)! + 1}`)
+  );
+}
+
+// Case, spacing, quotes and backticks don't matter: "`useState`" matches "usestate"
+export function normalizeBlank(value: string): string {
+  return value.toLowerCase().replace(/[`'"]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function gradeFillBlank(question: Question, values: string[]): StructuredGrade {
+  const blanks = question.blanks ?? [];
+  const results = blanks.map((blank, i) => {
+    const value = normalizeBlank(values[i] ?? '');
+    return value !== '' && blank.accepted.some(variant => normalizeBlank(variant) === value);
+  });
+  const correct = results.filter(Boolean).length;
+
+  return summarize(
+    correct / Math.max(blanks.length, 1),
+    `${correct} of ${blanks.length} blanks correct.`,
+    correct > 0 ? [`Filled correctly: ${results.map((ok, i) => (ok ? i + 1 : null)).filter(Boolean).join(', ')}`] : [],
+    blanks
+      .map((blank, i) => (results[i] ? null : `Blank ${i + 1}: expected "${blank.accepted[0]}"`))
+      .filter((line): line is string => line !== null)
+  );
+}
+
+// Trailing spaces and blank lines at the end don't count; everything else must match exactly
+export function trimOutput(lines: string[]): string[] {
+  const trimmed = lines.map(line => line.trimEnd());
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1] === '') trimmed.pop();
+  return trimmed;
+}
+
+// Whether a candidate output (one line per console call) is exactly the recorded one
+export function matchesOutput(candidate: string, lines: string[]): boolean {
+  return trimOutput(candidate.split('\n')).join('\n') === trimOutput(lines).join('\n');
+}
+
+export interface OutputLine {
+  expected?: string; // Absent past the end of the recorded output
+  actual?: string; // Absent past the end of the prediction
+  matches: boolean;
+}
+
+// Line by line, so one wrong line doesn't shift every line after it
+export function compareOutput(expected: string[], predicted: string[]): OutputLine[] {
+  const actual = trimOutput(predicted);
+  return Array.from({ length: Math.max(expected.length, actual.length) }, (_, i) => ({
+    expected: expected[i],
+    actual: actual[i],
+    matches: expected[i] !== undefined && expected[i].trimEnd() === actual[i],
+  }));
+}
+
+function gradePredictOutput(question: Question, predicted: string[]): StructuredGrade {
+  const lines = compareOutput(question.expectedOutput ?? [], predicted);
+  const matched = lines.filter(line => line.matches).length;
+  const expectedCount = question.expectedOutput?.length ?? 0;
+
+  return summarize(
+    lines.length === 0 ? 1 : matched / lines.length,
+    `${matched} of ${expectedCount} output lines predicted correctly`
+      + (lines.length > expectedCount ? `, ${lines.length - expectedCount} extra.` : '.'),
+    matched > 0 ? [`Correct lines: ${lines.map((line, i) => (line.matches ? i + 1 : null)).filter(Boolean).join(', ')}`] : [],
+    lines
+      .map((line, i) => {
+        if (line.matches) return null;
+        if (line.expected === undefined) return `Line ${i + 1}: nothing is logged here`;
+        return `Line ${i + 1}: expected "${line.expected}"`;
+      })
+      .filter((line): line is string => line !== null)
+  );
+}
+
+export function gradeStructuredAnswer(question: Question, answer: string): StructuredGrade {
+  const values = decodeAnswerList(answer);
+  switch (question.answerFormat) {
+    case 'multi-select':
+      return gradeMultiSelect(question, values);
+    case 'ordering':
+      return gradeOrdering(question, values);
+    case 'fill-blank':
+      return gradeFillBlank(question, values);
+    case 'predict-output':
+      return gradePredictOutput(question, values);
+    default:
+      throw new Error(`${question.answerFormat} answers are not graded here`);
+  }
+}
@@ -0,0 +1,118 @@
+// Answer review: which concepts an answer covered, and where they appear in the text
+
+import { Question } from '@/data/types';
+import { PracticeSession } from '@/store/practice-store';
+import { isResultGraded } from './analytics';
+import { mentionsConcept, scoreRubric } from './grading/rubric';
+import { extractKeyConcepts, isSimilarConcept } from './grading/keyword';
+
+export interface ConceptMatch {
+  label: string;
+  kind: 'concept' | 'code' | 'misconception';
+  met: boolean; // For misconceptions: true when the answer avoided it
+  terms: string[]; // Phrases to highlight; code patterns have none
+}
+
+export interface ConceptCoverage {
+  source: 'rubric' | 'keyword';
+  matches: ConceptMatch[];
+}
+
+export type HighlightTone = 'matched' | 'missed' | 'misconception';
+
+export interface HighlightTerm {
+  term: string;
+  tone: HighlightTone;
+}
+
+export interface TextSegment {
+  text: string;
+  tone?: HighlightTone;
+}
+
+const MISSED_SCORE = 0.75; // Graded answers below this are offered for a retry
+
+// The question's rubric when it has one, otherwise the keyword grader's concepts
+export function getConceptCoverage(question: Question, userAnswer: string): ConceptCoverage {
+  if (question.rubric) {
+    const { rubric } = question;
+    const matches = scoreRubric(userAnswer, rubric).map<ConceptMatch>(criterion => {
+      const concept = rubric.concepts.find(c => c.id === criterion.id);
+      const misconception = rubric.misconceptions?.find(m => m.id === criterion.id);
+      const terms = criterion.kind === 'concept' && concept
+        ? [concept.label, ...(concept.synonyms ?? [])]
+        : criterion.kind === 'misconception' && misconception
+          ? misconception.phrases.filter(phrase => mentionsConcept(userAnswer, { label: phrase }))
+          : [];
+      return { label: criterion.label, kind: criterion.kind, met: criterion.met, terms };
+    });
+    return { source: 'rubric', matches };
+  }
+  
+  const userConcepts = extractKeyConcepts(userAnswer);
+  const matches = extractKeyConcepts(question.answer).map<ConceptMatch>(concept => ({
+    label: concept,
+    kind: 'concept',
+    met: userConcepts.some(userConcept => isSimilarConcept(userConcept, concept)),
+    terms: [concept],
+  }));
+  return { source: 'keyword', matches };
+}
+
+// Terms to mark in the user's answer and in the reference answer
+export function getHighlightTerms(coverage: ConceptCoverage): { user: HighlightTerm[]; reference: HighlightTerm[] } {
+  const user: HighlightTerm[] = [];
+  const reference: HighlightTerm[] = [];
+  
+  coverage.matches.forEach(match => {
+    match.terms.forEach(term => {
+      if (match.kind === 'misconception') {
+        if (!match.met) user.push({ term, tone: 'misconception' });
+        return;
+      }
+      if (match.met) user.push({ term, tone: 'matched' });
+      reference.push({ term, tone: match.met ? 'matched' : 'missed' });
+    });
+  });
+  
+  return { user, reference };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits text into plain and highlighted runs; longer terms win where terms overlap
+export function highlightText(text: string, terms: HighlightTerm[]): TextSegment[] {
+  const usable = terms
+    .filter(t => t.term.trim().length > 1)
+    .sort((a, b) => b.term.length - a.term.length);
+  if (usable.length === 0 || text === '') return [{ text }];
+  
+  const toneOf = new Map<string, HighlightTone>();
+  usable.forEach(t => {
+    if (!toneOf.has(t.term.toLowerCase())) toneOf.set(t.term.toLowerCase(), t.tone);
+  });
+  
+  const pattern = new RegExp(`(?<![a-z0-9])(${[...toneOf.keys()].map(escapeRegExp).join('|')})(?![a-z0-9])`, 'gi');
+  const segments: TextSegment[] = [];
+  let last = 0;
+  
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start) });
+    segments.push({ text: match[0], tone: toneOf.get(match[0].toLowerCase()) });
+    last = start + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  
+  return segments;
+}
+
+// Questions whose graded answers scored under 75%, in the order they were asked
+export function getMissedQuestionIds(session: PracticeSession): string[] {
+  return session.questions
+    .filter(question => {
+      const result = session.results.find(r => r.questionId === question.id);
+      return !!result && isResultGraded(result) && result.score < MISSED_SCORE;
+    })
+    .map(question => question.id);
+}
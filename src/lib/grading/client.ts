@@ -0,0 +1,35 @@
+import { GradeRequest, GradeResponse, Question } from '@/data/types';
+import { allQuestions } from '@/data/questions';
+import { rubricGrader } from './rubric';
+
+// Sends an answer to /api/grade and returns the automatic grade
+export async function requestGrade(payload: GradeRequest): Promise<GradeResponse> {
+  const response = await fetch('/api/grade', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Grading failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
+
+// The server only grades against the question bank's rubrics, so custom questions with a rubric
+// are scored here in the browser and never send their patterns to the server
+export async function gradeQuestion(question: Question, userAnswer: string): Promise<GradeResponse> {
+  const isBuiltIn = allQuestions.some(q => q.id === question.id);
+  const context = { question: question.question, userAnswer, correctAnswer: question.answer, rubric: question.rubric };
+  if (!isBuiltIn && rubricGrader.isAvailable(context)) {
+    return { ...(await rubricGrader.grade(context)), engine: 'rubric' };
+  }
+
+  return requestGrade({
+    questionId: question.id,
+    question: question.question,
+    userAnswer,
+    correctAnswer: question.answer,
+  });
+}
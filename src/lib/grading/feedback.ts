@@ -0,0 +1,18 @@
+// Summary sentence shared by the local graders
+export function summarizeScore(score: number): string {
+  if (score >= 0.8) {
+    return 'Excellent answer! You demonstrated strong understanding of the key concepts.';
+  } else if (score >= 0.6) {
+    return 'Good answer with solid understanding. Consider adding more detail on some concepts.';
+  } else if (score >= 0.4) {
+    return 'Partial understanding shown. Review the complete answer to fill in knowledge gaps.';
+  } else if (score >= 0.2) {
+    return 'Basic attempt. Focus on understanding the core concepts mentioned in the answer.';
+  } else {
+    return 'Keep practicing! Review this topic thoroughly before moving on.';
+  }
+}
+
+export function roundScore(score: number): number {
+  return Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100;
+}
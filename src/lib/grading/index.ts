@@ -0,0 +1,65 @@
+import { GradeResponse, GraderEngine } from '@/data/types';
+import { Grader, GraderConfig, GradingContext } from './types';
+import { keywordGrader } from './keyword';
+import { rubricGrader } from './rubric';
+import { createLlmGrader } from './llm';
+
+export type { Grader, GraderConfig, GradingContext, GradeResult } from './types';
+
+const engines: GraderEngine[] = ['keyword', 'rubric', 'llm'];
+
+// Reads grader settings from the environment:
+//   GRADER_ENGINE          keyword | rubric | llm (default: keyword)
+//   GRADER_LLM_BASE_URL    OpenAI-compatible API root, e.g. https://api.openai.com/v1
+//   GRADER_LLM_API_KEY     optional bearer token
+//   GRADER_LLM_MODEL       model name (default: gpt-4o-mini)
+//   GRADER_LLM_TIMEOUT_MS  request timeout (default: 15000)
+export function getGraderConfig(env: Record<string, string | undefined> = process.env): GraderConfig {
+  const engine = engines.find(e => e === env.GRADER_ENGINE) ?? 'keyword';
+  
+  return {
+    engine,
+    llm: env.GRADER_LLM_BASE_URL
+      ? {
+          baseUrl: env.GRADER_LLM_BASE_URL,
+          apiKey: env.GRADER_LLM_API_KEY,
+          model: env.GRADER_LLM_MODEL || 'gpt-4o-mini',
+          timeoutMs: Number(env.GRADER_LLM_TIMEOUT_MS) || 15000,
+        }
+      : undefined,
+  };
+}
+
+export function createGrader(engine: GraderEngine, config: GraderConfig): Grader | null {
+  switch (engine) {
+    case 'keyword':
+      return keywordGrader;
+    case 'rubric':
+      return rubricGrader;
+    case 'llm':
+      return config.llm ? createLlmGrader(config.llm) : null;
+  }
+}
+
+// Grades with the configured engine, falling back to the keyword grader when it is unavailable or fails.
+// Answers to questions with a rubric are always scored against the rubric.
+export async function gradeAnswer(context: GradingContext, config: GraderConfig = getGraderConfig()): Promise<GradeResponse> {
+  const engine = rubricGrader.isAvailable(context) ? 'rubric' : config.engine;
+  const grader = createGrader(engine, config);
+  
+  if (grader && grader.engine !== 'keyword' && grader.isAvailable(context)) {
+    try {
+      const result = await grader.grade(context);
+      return { ...result, engine: grader.engine };
+    } catch (error) {
+      console.error(`Grader "${grader.engine}" failed, falling back to keyword grader:`, error);
+    }
+  }
+  
+  const result = await keywordGrader.grade(context);
+  return {
+    ...result,
+    engine: 'keyword',
+    fallbackFrom: engine !== 'keyword' ? engine : undefined,
+  };
+}
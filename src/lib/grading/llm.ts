@@ -0,0 +1,84 @@
+import { Grader, GradeResult, GradingContext, LlmGraderConfig } from './types';
+import { roundScore } from './feedback';
+
+const SYSTEM_PROMPT = `You grade answers to senior React and Next.js interview questions.
+Compare the candidate's answer with the reference answer and respond with a JSON object only:
+{"score": number between 0 and 1, "feedback": string, "strengths": string[], "improvements": string[]}`;
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+// Grader for any OpenAI-compatible chat completions endpoint (OpenAI, Ollama, vLLM, a local mock, ...)
+export function createLlmGrader(config: LlmGraderConfig): Grader {
+  return {
+    engine: 'llm',
+    isAvailable: () => !!config.baseUrl,
+    grade: async (context) => {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+      
+      try {
+        const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: config.model,
+            temperature: 0,
+            response_format: { type: 'json_object' },
+            messages: [
+              { role: 'system', content: SYSTEM_PROMPT },
+              { role: 'user', content: buildPrompt(context) },
+            ],
+          }),
+          signal: controller.signal,
+        });
+        
+        if (!response.ok) {
+          throw new Error(`LLM grader responded with status ${response.status}`);
+        }
+        
+        const data: ChatCompletionResponse = await response.json();
+        const content = data.choices?.[0]?.message?.content;
+        if (!content) {
+          throw new Error('LLM grader returned an empty completion');
+        }
+        
+        return parseGrade(content);
+      } finally {
+        clearTimeout(timeout);
+      }
+    },
+  };
+}
+
+function buildPrompt({ question, correctAnswer, userAnswer }: GradingContext): string {
+  return [
+    `Question:\n${question}`,
+    `Reference answer:\n${correctAnswer}`,
+    `Candidate answer:\n${userAnswer}`,
+  ].join('\n\n');
+}
+
+function parseGrade(content: string): GradeResult {
+  // Some models wrap JSON in a fenced block despite response_format
+  const json = content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '');
+  const parsed = JSON.parse(json);
+  
+  if (typeof parsed.score !== 'number' || Number.isNaN(parsed.score)) {
+    throw new Error('LLM grader returned no numeric score');
+  }
+  
+  const toStrings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+  
+  return {
+    score: roundScore(parsed.score),
+    feedback: typeof parsed.feedback === 'string' ? parsed.feedback : '',
+    strengths: toStrings(parsed.strengths),
+    improvements: toStrings(parsed.improvements),
+  };
+}
@@ -0,0 +1,117 @@
+import { Rubric, RubricCodePattern, RubricConcept, RubricCriterionResult } from '@/data/types';
+import { Grader } from './types';
+import { roundScore, summarizeScore } from './feedback';
+
+// Rubric-based grading: weighted must-mention concepts and required code, minus penalised misconceptions
+export const rubricGrader: Grader = {
+  engine: 'rubric',
+  isAvailable: ({ rubric }) => !!rubric && (rubric.concepts.length > 0 || !!rubric.requiredCode?.length),
+  grade: async ({ userAnswer, rubric }) => {
+    if (!rubric) {
+      throw new Error('Rubric grader requires a rubric');
+    }
+    
+    const breakdown = scoreRubric(userAnswer, rubric);
+    const score = breakdown.reduce((sum, c) => sum + c.points, 0);
+    
+    const hit = breakdown.filter(c => c.kind !== 'misconception' && c.met);
+    const missed = breakdown
+      .filter(c => c.kind !== 'misconception' && !c.met)
+      .sort((a, b) => b.maxPoints - a.maxPoints); // Costliest gaps first
+    const triggered = breakdown.filter(c => c.kind === 'misconception' && !c.met);
+    
+    const strengths: string[] = [];
+    if (hit.length > 0) {
+      strengths.push(`Covered: ${hit.map(c => c.label).join(', ')}`);
+    }
+    
+    const improvements: string[] = [];
+    if (missed.length > 0) {
+      improvements.push(`Missing: ${missed.map(c => c.label).join(', ')}`);
+    }
+    triggered.forEach(c => {
+      const misconception = rubric.misconceptions?.find(m => m.id === c.id);
+      improvements.push(`Misconception: ${c.label}${misconception?.explanation ? ` — ${misconception.explanation}` : ''}`);
+    });
+    
+    return {
+      score: roundScore(score),
+      feedback: summarizeScore(score),
+      strengths,
+      improvements,
+      breakdown,
+    };
+  },
+};
+
+// Per-criterion results; positive points sum to 1 before misconception penalties
+export function scoreRubric(answer: string, rubric: Rubric): RubricCriterionResult[] {
+  const requiredCode = rubric.requiredCode ?? [];
+  const totalWeight =
+    rubric.concepts.reduce((sum, c) => sum + c.weight, 0) +
+    requiredCode.reduce((sum, c) => sum + c.weight, 0);
+  const share = (weight: number) => (totalWeight > 0 ? weight / totalWeight : 0);
+  
+  const concepts = rubric.concepts.map<RubricCriterionResult>(concept => {
+    const met = mentionsConcept(answer, concept);
+    return {
+      id: concept.id,
+      kind: 'concept',
+      label: concept.label,
+      met,
+      points: met ? share(concept.weight) : 0,
+      maxPoints: share(concept.weight),
+    };
+  });
+  
+  const code = requiredCode.map<RubricCriterionResult>(check => {
+    const met = matchesCodePattern(answer, check);
+    return {
+      id: check.id,
+      kind: 'code',
+      label: check.label,
+      met,
+      points: met ? share(check.weight) : 0,
+      maxPoints: share(check.weight),
+    };
+  });
+  
+  const misconceptions = (rubric.misconceptions ?? []).map<RubricCriterionResult>(misconception => {
+    const triggered = misconception.phrases.some(phrase => mentionsConcept(answer, { label: phrase }));
+    return {
+      id: misconception.id,
+      kind: 'misconception',
+      label: misconception.label,
+      met: !triggered,
+      points: triggered ? -misconception.penalty : 0,
+      maxPoints: 0,
+    };
+  });
+  
+  return [...concepts, ...code, ...misconceptions];
+}
+
+export function mentionsConcept(text: string, concept: Pick<RubricConcept, 'label' | 'synonyms'>): boolean {
+  const haystack = ` ${normalize(text)} `;
+  return [concept.label, ...(concept.synonyms ?? [])].some(term => {
+    const needle = normalize(term);
+    return needle.length > 0 && haystack.includes(` ${needle} `);
+  });
+}
+
+function matchesCodePattern(text: string, check: RubricCodePattern): boolean {
+  try {
+    return new RegExp(check.pattern, check.flags).test(text);
+  } catch {
+    // An invalid pattern can never be satisfied
+    return false;
+  }
+}
+
+// Lowercase and collapse punctuation so "re-render" matches "re render" and "useEffect()" matches "useeffect"
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,35 @@
+import { GraderEngine, Rubric, RubricCriterionResult } from '@/data/types';
+
+export interface GradingContext {
+  question: string;
+  userAnswer: string;
+  correctAnswer: string;
+  rubric?: Rubric;
+}
+
+export interface GradeResult {
+  score: number; // 0-1
+  feedback: string;
+  strengths: string[];
+  improvements: string[];
+  breakdown?: RubricCriterionResult[];
+}
+
+export interface Grader {
+  engine: GraderEngine;
+  // Whether this grader can score the given answer (e.g. a rubric exists, an endpoint is configured)
+  isAvailable: (context: GradingContext) => boolean;
+  grade: (context: GradingContext) => Promise<GradeResult>;
+}
+
+export interface LlmGraderConfig {
+  baseUrl: string; // OpenAI-compatible API root, e.g. http://localhost:11434/v1
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+}
+
+export interface GraderConfig {
+  engine: GraderEngine;
+  llm?: LlmGraderConfig;
+}
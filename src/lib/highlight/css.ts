@@ -0,0 +1,62 @@
+import { Scanner, createScanner } from './scanner';
+import { Token } from './types';
+
+const WHITESPACE = /\s+/y;
+const STRING = /"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?/y;
+const AT_RULE = /@[\w-]+/y;
+const SELECTOR = /[^;{}]*?(?=\s*\{)/y;
+const PROPERTY = /-{0,2}[A-Za-z_][\w-]*(?=\s*:)/y;
+const NUMBER = /[-+]?(?:\d*\.)?\d+(?:[a-zA-Z%]+)?/y;
+const COLOR = /#[\da-fA-F]{3,8}\b/y;
+const FUNCTION = /[\w-]+(?=\()/y;
+const IMPORTANT = /!important/y;
+const WORD = /[\w-]+/y;
+
+export function tokenizeCss(source: string): Token[] {
+  const scanner = createScanner(source);
+  scanCss(scanner);
+  return scanner.tokens;
+}
+
+// Selectors, properties and values are told apart by what comes next, so rules nested in
+// at-rules and `&:hover` blocks work. Stops where `end` starts, for <style> inside HTML.
+export function scanCss(s: Scanner, end?: string) {
+  let inValue = false;
+
+  while (!s.done) {
+    if (end && s.startsWith(end)) return;
+    if (s.eat('plain', WHITESPACE)) continue;
+
+    if (s.startsWith('/*')) {
+      s.until('comment', '*/', 2);
+      continue;
+    }
+    if (s.eat('string', STRING)) continue;
+
+    const char = s.peek();
+    if (char === '{' || char === '}' || char === ';') {
+      s.emit('plain', char);
+      inValue = false;
+      continue;
+    }
+
+    if (inValue) {
+      if (s.eat('number', COLOR) || s.eat('keyword', IMPORTANT) || s.eat('function', FUNCTION)) continue;
+      if (/[\d.+-]/.test(char) && s.eat('number', NUMBER)) continue;
+      if (s.eat('plain', WORD)) continue;
+      s.emit('plain', char);
+      continue;
+    }
+
+    if (s.eat('keyword', AT_RULE)) continue;
+    // Checked first: `a:hover {` is a selector even though a colon follows the first word
+    if (s.eat('tag', SELECTOR)) continue;
+    if (s.eat('property', PROPERTY)) {
+      s.eat('plain', WHITESPACE);
+      if (s.peek() === ':') s.emit('plain', ':');
+      inValue = true;
+      continue;
+    }
+    s.emit('plain', char);
+  }
+}
@@ -0,0 +1,59 @@
+import { createScanner } from './scanner';
+import { scanCss } from './css';
+import { scanScript } from './script';
+import { Token } from './types';
+
+const WHITESPACE = /\s+/y;
+const TAG_OPEN = /<\/?[A-Za-z][\w:-]*/y;
+const ATTRIBUTE = /[^\s"'<>/=]+/y;
+const QUOTED = /"[^"]*"?|'[^']*'?/y;
+const UNQUOTED = /[^\s"'=<>`]+/y;
+const ENTITY = /&(?:#\d+|#x[\da-fA-F]+|\w+);/y;
+const TEXT = /[^<&]+/y;
+
+// <script> and <style> contents are handed to the JavaScript and CSS tokenizers
+export function tokenizeHtml(source: string): Token[] {
+  const s = createScanner(source);
+
+  while (!s.done) {
+    if (s.startsWith('<!--')) {
+      s.until('comment', '-->', 4);
+      continue;
+    }
+    if (s.startsWith('<!')) {
+      s.until('keyword', '>');
+      continue;
+    }
+
+    const tag = s.test(TAG_OPEN);
+    if (tag) {
+      s.emit('tag', tag);
+      let afterEquals = false;
+      while (!s.done && !s.startsWith('>') && !s.startsWith('/>') && s.peek() !== '<') {
+        if (s.eat('plain', WHITESPACE)) continue;
+        if (s.peek() === '=') {
+          s.emit('plain', '=');
+          afterEquals = true;
+          continue;
+        }
+        if (afterEquals ? s.eat('string', QUOTED) || s.eat('string', UNQUOTED) : s.eat('attribute', ATTRIBUTE)) {
+          afterEquals = false;
+          continue;
+        }
+        s.emit('plain', s.peek());
+      }
+      if (s.startsWith('/>')) s.emit('tag', '/>');
+      else if (s.startsWith('>')) s.emit('tag', '>');
+
+      const name = tag.slice(1).toLowerCase();
+      if (name === 'script') scanScript(s, { typescript: false, jsx: false }, '</script');
+      if (name === 'style') scanCss(s, '</style');
+      continue;
+    }
+
+    if (s.eat('keyword', ENTITY) || s.eat('plain', TEXT)) continue;
+    s.emit('plain', s.peek());
+  }
+
+  return s.tokens;
+}
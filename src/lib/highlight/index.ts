@@ -0,0 +1,93 @@
+import { tokenizeCss } from './css';
+import { tokenizeHtml } from './html';
+import { tokenizeJson } from './json';
+import { tokenizeScript } from './script';
+import { tokenizeShell } from './shell';
+import { Token, Tokenizer } from './types';
+
+export type { Token, TokenType } from './types';
+
+const typeScript: Tokenizer = source => tokenizeScript(source, { typescript: true, jsx: true });
+const javaScript: Tokenizer = source => tokenizeScript(source, { typescript: false, jsx: true });
+
+// Fence names and their aliases. `typescript` is the default and allows JSX, since most
+// examples are components; only `ts` is read as plain TypeScript, where `<T>` is a type.
+const tokenizers: Record<string, Tokenizer> = {
+  typescript: typeScript,
+  tsx: typeScript,
+  ts: source => tokenizeScript(source, { typescript: true, jsx: false }),
+  javascript: javaScript,
+  js: javaScript,
+  jsx: javaScript,
+  mjs: javaScript,
+  cjs: javaScript,
+  css: tokenizeCss,
+  scss: tokenizeCss,
+  json: tokenizeJson,
+  jsonc: tokenizeJson,
+  html: tokenizeHtml,
+  xml: tokenizeHtml,
+  svg: tokenizeHtml,
+  shell: tokenizeShell,
+  sh: tokenizeShell,
+  bash: tokenizeShell,
+  zsh: tokenizeShell,
+  console: tokenizeShell,
+};
+
+export const supportedLanguages = Object.keys(tokenizers);
+
+// Tokens grouped by line; unknown languages come back as plain text
+export function highlightCode(code: string, language = 'typescript'): Token[][] {
+  const tokenize = tokenizers[language.toLowerCase()];
+  return splitLines(tokenize ? tokenize(code) : [{ type: 'plain', value: code }]);
+}
+
+function splitLines(tokens: Token[]): Token[][] {
+  const lines: Token[][] = [[]];
+  for (const token of tokens) {
+    token.value.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type: token.type, value: part });
+    });
+  }
+  return lines;
+}
+
+// `1,3-5` -> [1, 3, 4, 5]; line numbers are 1-based and anything unparseable is skipped
+export function parseLineRanges(spec: string): number[] {
+  const lines = new Set<number>();
+  for (const part of spec.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) continue;
+    const from = Number(match[1]);
+    const to = Math.min(Number(match[2] ?? match[1]), from + 1000);
+    for (let line = from; line <= to; line++) lines.add(line);
+  }
+  return [...lines].sort((a, b) => a - b);
+}
+
+export type DiffMarker = '+' | '-' | ' ';
+
+export interface DiffCode {
+  code: string; // The code without its markers, so it highlights as one program
+  markers: DiffMarker[]; // One per line
+}
+
+// Unified-diff style before/after examples: every line starts with `+`, `-` or a space
+export function parseDiff(code: string): DiffCode {
+  const lines = code.split('\n');
+  return {
+    code: lines.map(line => (/^[+\- ]/.test(line) ? line.slice(1) : line)).join('\n'),
+    markers: lines.map(line => (line[0] === '+' || line[0] === '-' ? line[0] : ' ')),
+  };
+}
+
+// Recognises a diff without a `diff` language: both kinds of change appear, and every other
+// line starts with a space, which plain code with top-level statements never does
+export function looksLikeDiff(code: string): boolean {
+  const lines = code.split('\n').filter(line => line.trim());
+  return lines.some(line => line[0] === '+')
+    && lines.some(line => line[0] === '-')
+    && lines.every(line => /^[+\- ]/.test(line));
+}
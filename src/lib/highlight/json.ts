@@ -0,0 +1,32 @@
+import { createScanner } from './scanner';
+import { Token } from './types';
+
+const WHITESPACE = /\s+/y;
+const STRING = /"(?:[^"\\\n]|\\.)*"?/y;
+const KEY_FOLLOWS = /\s*:/y;
+const NUMBER = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const LITERAL = /(?:true|false|null)\b/y;
+const COMMENT = /\/\/[^\n]*/y;
+
+// Also accepts the comments allowed in tsconfig-style JSON
+export function tokenizeJson(source: string): Token[] {
+  const s = createScanner(source);
+
+  while (!s.done) {
+    if (s.eat('plain', WHITESPACE) || s.eat('comment', COMMENT)) continue;
+    if (s.startsWith('/*')) {
+      s.until('comment', '*/', 2);
+      continue;
+    }
+
+    const string = s.test(STRING);
+    if (string) {
+      s.emit(s.test(KEY_FOLLOWS, string.length) !== null ? 'property' : 'string', string);
+      continue;
+    }
+    if (s.eat('number', NUMBER) || s.eat('keyword', LITERAL)) continue;
+    s.emit('plain', s.peek());
+  }
+
+  return s.tokens;
+}
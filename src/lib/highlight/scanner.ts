@@ -0,0 +1,60 @@
+import { Token, TokenType } from './types';
+
+export type Scanner = ReturnType<typeof createScanner>;
+
+// A cursor over the whole source, so a tokenizer's state (open comments, template literals,
+// JSX nesting) carries across lines. Patterns passed in must use the sticky `y` flag.
+export function createScanner(source: string) {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  const scanner = {
+    source,
+    tokens,
+
+    get pos() {
+      return pos;
+    },
+
+    get done() {
+      return pos >= source.length;
+    },
+
+    peek(offset = 0): string {
+      return source[pos + offset] ?? '';
+    },
+
+    startsWith(text: string): boolean {
+      return source.startsWith(text, pos);
+    },
+
+    // The match at the current position (or `offset` characters ahead), without consuming it
+    test(pattern: RegExp, offset = 0): string | null {
+      pattern.lastIndex = pos + offset;
+      return pattern.exec(source)?.[0] ?? null;
+    },
+
+    // Consumes `value`; neighbouring tokens of the same type are merged
+    emit(type: TokenType, value: string) {
+      if (!value) return;
+      pos += value.length;
+      const last = tokens[tokens.length - 1];
+      if (last?.type === type) last.value += value;
+      else tokens.push({ type, value });
+    },
+
+    eat(type: TokenType, pattern: RegExp): string | null {
+      const value = scanner.test(pattern);
+      if (value) scanner.emit(type, value);
+      return value;
+    },
+
+    // Everything up to and including `end`, or the rest of the source when it never comes
+    until(type: TokenType, end: string, skip = 0) {
+      const index = source.indexOf(end, pos + skip);
+      scanner.emit(type, source.slice(pos, index === -1 ? undefined : index + end.length));
+    },
+  };
+
+  return scanner;
+}
@@ -0,0 +1,185 @@
+import { Scanner, createScanner } from './scanner';
+import { Token, TokenType } from './types';
+
+export interface ScriptOptions {
+  typescript: boolean;
+  jsx: boolean;
+}
+
+const keywords = new Set([
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+  'delete', 'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if',
+  'import', 'in', 'instanceof', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch',
+  'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield',
+]);
+
+const typeScriptKeywords = new Set([
+  'abstract', 'any', 'as', 'asserts', 'bigint', 'boolean', 'declare', 'enum', 'implements', 'infer',
+  'interface', 'is', 'keyof', 'namespace', 'never', 'number', 'object', 'override', 'private',
+  'protected', 'public', 'readonly', 'satisfies', 'string', 'symbol', 'type', 'unknown',
+]);
+
+// Keywords that are values; after any other keyword an expression can start
+const valueKeywords = new Set(['this', 'super', 'true', 'false', 'null', 'undefined']);
+
+const WHITESPACE = /\s+/y;
+const LINE_COMMENT = /\/\/[^\n]*/y;
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"?/y;
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'?/y;
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?)n?/y;
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const CALL = /\s*(?:<[\w$\s,.[\]|]*>\s*)?\(/y;
+const REGEX = /\/(?![*/])(?:[^/\\[\n]|\\.|\[(?:[^\]\\\n]|\\.)*\])+\/[a-z]*/y;
+const TEMPLATE_TEXT = /(?:[^`\\$]|\\[\s\S]|\$(?!\{))+/y;
+const JSX_TAG_OPEN = /<\/?[\w$.:-]*/y;
+const JSX_ATTRIBUTE = /[\w$:-]+/y;
+const JSX_STRING = /"[^"]*"?|'[^']*'?/y;
+const JSX_TEXT = /[^<{]+/y;
+
+export function tokenizeScript(source: string, options: ScriptOptions): Token[] {
+  const scanner = createScanner(source);
+  scanScript(scanner, options);
+  return scanner.tokens;
+}
+
+// Scans code until the source ends, or until `end` when given. `'}'` stops at the brace that
+// closes an embedded expression (`${...}` or a JSX `{...}`); any other string stops where it starts.
+export function scanScript(s: Scanner, options: ScriptOptions, end?: string) {
+  const words = options.typescript ? new Set([...keywords, ...typeScriptKeywords]) : keywords;
+  // Whether an expression can start here, which decides if `/` is a regex and `<` a JSX tag
+  let expressionStart = true;
+  let afterDot = false;
+  let depth = 0;
+
+  while (!s.done) {
+    const char = s.peek();
+
+    if (end && end !== '}' && s.startsWith(end)) return;
+
+    if (s.eat('plain', WHITESPACE)) continue;
+
+    if (s.startsWith('//')) {
+      s.eat('comment', LINE_COMMENT);
+      continue;
+    }
+    if (s.startsWith('/*')) {
+      s.until('comment', '*/', 2);
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      s.eat('string', char === '"' ? DOUBLE_QUOTED : SINGLE_QUOTED);
+      expressionStart = afterDot = false;
+      continue;
+    }
+    if (char === '`') {
+      scanTemplate(s, options);
+      expressionStart = afterDot = false;
+      continue;
+    }
+
+    if (/\d/.test(char) || (char === '.' && /\d/.test(s.peek(1)))) {
+      s.eat('number', NUMBER);
+      expressionStart = afterDot = false;
+      continue;
+    }
+
+    const word = s.test(IDENTIFIER);
+    if (word) {
+      const isCall = s.test(CALL, word.length) !== null;
+      let type: TokenType = 'plain';
+      if (afterDot) type = isCall ? 'function' : 'property';
+      else if (words.has(word)) type = 'keyword';
+      else if (isCall) type = 'function';
+      else if (/^[A-Z]/.test(word)) type = 'type';
+
+      s.emit(type, word);
+      expressionStart = type === 'keyword' && !valueKeywords.has(word);
+      afterDot = false;
+      continue;
+    }
+
+    if (char === '/' && expressionStart) {
+      if (s.eat('regex', REGEX)) {
+        expressionStart = false;
+        continue;
+      }
+    }
+
+    if (char === '<' && options.jsx && expressionStart && /[A-Za-z>]/.test(s.peek(1))) {
+      scanJsxElement(s, options);
+      expressionStart = false;
+      continue;
+    }
+
+    if (end === '}') {
+      if (char === '{') depth++;
+      if (char === '}' && depth-- === 0) return;
+    }
+
+    s.emit('plain', char);
+    expressionStart = !(char === ')' || char === ']' || char === '}');
+    afterDot = char === '.';
+  }
+}
+
+function scanTemplate(s: Scanner, options: ScriptOptions) {
+  s.emit('string', '`');
+  while (!s.done) {
+    if (s.eat('string', TEMPLATE_TEXT)) continue;
+    if (s.peek() === '`') {
+      s.emit('string', '`');
+      return;
+    }
+    if (s.startsWith('${')) scanEmbedded(s, options, 'keyword', '${');
+    else s.emit('string', s.peek()); // A backslash at the very end
+  }
+}
+
+// `${...}` in templates and `{...}` in JSX: code up to the matching brace
+function scanEmbedded(s: Scanner, options: ScriptOptions, type: TokenType, open: string) {
+  s.emit(type, open);
+  scanScript(s, options, '}');
+  if (s.peek() === '}') s.emit(type, '}');
+}
+
+// One element with its children, or a run of sibling tags when a closing tag was unbalanced
+function scanJsxElement(s: Scanner, options: ScriptOptions) {
+  const jsx = { ...options, jsx: true };
+  let open = 0;
+
+  while (!s.done && s.peek() === '<') {
+    const isClosing = s.startsWith('</');
+    s.emit('tag', s.test(JSX_TAG_OPEN)!);
+
+    let selfClosing = false;
+    while (!s.done) {
+      if (s.eat('plain', WHITESPACE)) continue;
+      if (s.startsWith('/>')) {
+        s.emit('tag', '/>');
+        selfClosing = true;
+        break;
+      }
+      if (s.peek() === '>') {
+        s.emit('tag', '>');
+        break;
+      }
+      if (s.peek() === '{') {
+        scanEmbedded(s, jsx, 'plain', '{');
+        continue;
+      }
+      if (s.eat('string', JSX_STRING) || s.eat('attribute', JSX_ATTRIBUTE)) continue;
+      s.emit('plain', s.peek());
+    }
+
+    if (isClosing) open--;
+    else if (!selfClosing) open++;
+    if (open <= 0) return;
+
+    // Children: text and `{...}` up to the next tag
+    while (!s.done && s.peek() !== '<') {
+      if (s.peek() === '{') scanEmbedded(s, jsx, 'plain', '{');
+      else s.eat('plain', JSX_TEXT);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { createScanner } from './scanner';
+import { Token } from './types';
+
+const keywords = new Set([
+  'if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done', 'case', 'esac', 'in',
+  'function', 'return', 'export', 'local', 'readonly', 'set', 'unset', 'source',
+]);
+
+// Keywords after which the next word is still a command
+const commandKeywords = new Set(['if', 'then', 'else', 'elif', 'do', 'while', 'until']);
+
+const PROMPT = /\$ /y;
+const SPACES = /[ \t]+/y;
+const COMMENT = /#[^\n]*/y;
+const SINGLE_QUOTED = /'[^']*'?/y;
+const DOUBLE_QUOTED_TEXT = /(?:[^"\\$]|\\[\s\S])+/y;
+const VARIABLE = /\$(?:\{[^}\n]*\}?|[A-Za-z_]\w*|[\w@#?$!*-])/y;
+const ASSIGNMENT = /[A-Za-z_]\w*=/y;
+const FLAG = /--?[\w-]+=?/y;
+const OPERATOR = /&&|\|\||[|;&()]/y;
+const NUMBER = /\d+(?:\.\d+)?(?![\w.-])/y;
+const WORD = /(?:[^\s|;&<>()$"'`#\\]|\\.)+/y;
+
+export function tokenizeShell(source: string): Token[] {
+  const s = createScanner(source);
+  let commandStart = true;
+  let lineStart = true;
+
+  while (!s.done) {
+    const char = s.peek();
+
+    if (char === '\n') {
+      s.emit('plain', char);
+      commandStart = lineStart = true;
+      continue;
+    }
+    // `$ npm install` in docs: the prompt is not part of the command
+    if (lineStart && s.eat('comment', PROMPT)) continue;
+    lineStart = false;
+
+    if (s.eat('plain', SPACES)) continue;
+    if (s.eat('comment', COMMENT)) continue;
+    if (s.eat('string', SINGLE_QUOTED)) {
+      commandStart = false;
+      continue;
+    }
+
+    if (char === '"') {
+      s.emit('string', '"');
+      while (!s.done && s.peek() !== '"') {
+        if (!s.eat('string', DOUBLE_QUOTED_TEXT) && !s.eat('variable', VARIABLE)) s.emit('string', s.peek());
+      }
+      if (s.peek() === '"') s.emit('string', '"');
+      commandStart = false;
+      continue;
+    }
+
+    if (s.startsWith('$(')) {
+      s.emit('variable', '$(');
+      commandStart = true;
+      continue;
+    }
+    if (s.eat('variable', VARIABLE)) {
+      commandStart = false;
+      continue;
+    }
+
+    if (s.eat('plain', OPERATOR)) {
+      commandStart = true;
+      continue;
+    }
+
+    if (commandStart && s.eat('variable', ASSIGNMENT)) continue;
+    if (!commandStart && (s.eat('attribute', FLAG) || s.eat('number', NUMBER))) continue;
+
+    const word = s.test(WORD);
+    if (word) {
+      if (commandStart && keywords.has(word)) {
+        s.emit('keyword', word);
+        commandStart = commandKeywords.has(word);
+      } else {
+        s.emit(commandStart ? 'function' : 'plain', word);
+        commandStart = false;
+      }
+      continue;
+    }
+
+    s.emit('plain', char);
+  }
+
+  return s.tokens;
+}
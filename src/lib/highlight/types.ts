@@ -0,0 +1,20 @@
+export type TokenType =
+  | 'keyword'
+  | 'string'
+  | 'comment'
+  | 'number'
+  | 'function'
+  | 'type' // Capitalised identifiers: classes, types and components
+  | 'tag' // JSX and HTML tags, CSS selectors
+  | 'attribute'
+  | 'property'
+  | 'regex'
+  | 'variable' // Shell variables
+  | 'plain';
+
+export interface Token {
+  type: TokenType;
+  value: string; // May span several lines; `splitLines` breaks it up for rendering
+}
+
+export type Tokenizer = (source: string) => Token[];
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseInline, parseMarkdown, safeHref } from './markdown';
+
+const text = (value: string) => ({ type: 'text', text: value });
+
+describe('safeHref', () => {
+  it('allows web, mail, in-page and relative links', () => {
+    for (const href of ['https://react.dev', 'http://localhost:3000', 'mailto:team@example.com', '#hooks', '/docs', 'docs/intro']) {
+      assert.equal(safeHref(href), href);
+    }
+  });
+
+  it('rejects script and data URLs', () => {
+    for (const href of ['javascript:alert(1)', 'data:text/html,<script>alert(1)</script>', 'vbscript:msgbox(1)']) {
+      assert.equal(safeHref(href), null);
+    }
+  });
+
+  it('rejects schemes hidden by case, padding or control characters', () => {
+    for (const href of ['JaVaScRiPt:alert(1)', '  javascript:alert(1)', 'java\tscript:alert(1)', 'java\nscript:alert(1)', ' DATA:text/html,x']) {
+      assert.equal(safeHref(href), null, JSON.stringify(href));
+    }
+  });
+
+  it('rejects protocol-relative URLs to other hosts', () => {
+    assert.equal(safeHref('//evil.example'), null);
+  });
+});
+
+describe('parseInline', () => {
+  it('keeps the text of unsafe links without linking it', () => {
+    assert.deepEqual(parseInline('[click](javascript:alert(1))'), [text('click')]);
+    assert.deepEqual(parseInline('[click]( JAVASCRIPT:alert(1) )'), [text('click')]);
+  });
+
+  it('links destinations with balanced parentheses', () => {
+    assert.deepEqual(parseInline('[wiki](https://en.wikipedia.org/wiki/Hook_(programming))'), [
+      { type: 'link', href: 'https://en.wikipedia.org/wiki/Hook_(programming)', children: [text('wiki')] },
+    ]);
+  });
+
+  it('nests emphasis inside strong text and strong text inside emphasis', () => {
+    assert.deepEqual(parseInline('**bold *and italic* text**'), [
+      { type: 'strong', children: [text('bold '), { type: 'emphasis', children: [text('and italic')] }, text(' text')] },
+    ]);
+    assert.deepEqual(parseInline('*italic **and bold** text*'), [
+      { type: 'emphasis', children: [text('italic '), { type: 'strong', children: [text('and bold')] }, text(' text')] },
+    ]);
+  });
+
+  it('leaves markup inside code spans alone', () => {
+    assert.deepEqual(parseInline('`**not bold**` and **bold**'), [
+      { type: 'code', text: '**not bold**' },
+      text(' and '),
+      { type: 'strong', children: [text('bold')] },
+    ]);
+  });
+
+  it('leaves stray asterisks and snake_case words as text', () => {
+    assert.deepEqual(parseInline('2 * 3 * 4 in use_effect_cleanup'), [text('2 * 3 * 4 in use_effect_cleanup')]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('keeps raw HTML as text', () => {
+    assert.deepEqual(parseMarkdown('<script>alert(1)</script>\n\nHi <img src=x onerror=alert(1)>'), [
+      { type: 'paragraph', children: [text('<script>alert(1)</script>')] },
+      { type: 'paragraph', children: [text('Hi <img src=x onerror=alert(1)>')] },
+    ]);
+  });
+
+  it('keeps code fences verbatim and reads their language and highlighted lines', () => {
+    assert.deepEqual(parseMarkdown('Before\n```tsx {1,3-4}\nconst a = 1;\n\n**not bold** <b>\n# not a heading\n```\nAfter'), [
+      { type: 'paragraph', children: [text('Before')] },
+      { type: 'code', language: 'tsx', highlight: [1, 3, 4], text: 'const a = 1;\n\n**not bold** <b>\n# not a heading' },
+      { type: 'paragraph', children: [text('After')] },
+    ]);
+  });
+
+  it('only closes a fence with the same kind of marker', () => {
+    assert.deepEqual(parseMarkdown('~~~md\n```js\nlog()\n```\n~~~'), [
+      { type: 'code', language: 'md', highlight: undefined, text: '```js\nlog()\n```' },
+    ]);
+  });
+});
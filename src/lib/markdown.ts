@@ -0,0 +1,275 @@
+// A small Markdown parser for answers, questions and feedback. It produces a tree that
+// components render as React elements, so raw HTML in the source is only ever shown as text.
+
+import { parseLineRanges } from './highlight';
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'code'; language?: string; highlight?: number[]; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'table'; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'rule' };
+
+// The info string can name lines to highlight: ```tsx {2,4-6}
+const FENCE = /^( {0,3})(`{3,}|~{3,})\s*([\w+#.-]*)\s*(?:\{([\d\s,-]*)\})?/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])( +|$)/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Only links that can't run script: web, mail, in-page and relative URLs
+export function safeHref(href: string): string | null {
+  // Browsers ignore control characters and spaces in a scheme, so `java\tscript:` still runs
+  const cleaned = href.replace(/[\u0000-\u0020\u007f]/g, '');
+  const scheme = cleaned.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+  if (scheme === undefined) return cleaned.startsWith('//') ? null : href.trim();
+  return scheme === 'http' || scheme === 'https' || scheme === 'mailto' ? href.trim() : null;
+}
+
+const isBlank = (line: string) => line.trim() === '';
+
+// Lines that end a paragraph without a blank line between them
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+const startsTable = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => parseInline(cell.trim()));
+
+export function parseMarkdown(source: string): BlockNode[] {
+  const lines = source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const [, indent, marker, language, lineRanges] = fence;
+      const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !closing.test(lines[i])) {
+        body.push(lines[i].replace(new RegExp(`^ {0,${indent.length}}`), ''));
+        i++;
+      }
+      i++; // Closing fence, or past the end when it was left open
+      blocks.push({
+        type: 'code',
+        language: language ? language.toLowerCase() : undefined,
+        highlight: lineRanges ? parseLineRanges(lineRanges) : undefined,
+        text: body.join('\n'),
+      });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    if (startsTable(lines, i)) {
+      const header = splitRow(line);
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        rows.push(splitRow(lines[i]));
+        i++;
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      i = parseList(lines, i, blocks);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length && !isBlank(lines[i])
+      && (paragraph.length === 0 || !(startsBlock(lines[i]) || startsTable(lines, i)))
+    ) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+// Reads one list starting at `start` into `blocks` and returns the index of the first line after it.
+// Lines indented to an item's content belong to it, so nested lists and continuation paragraphs work.
+function parseList(lines: string[], start: number, blocks: BlockNode[]): number {
+  const first = lines[start].match(LIST_ITEM)!;
+  const ordered = /\d/.test(first[2]);
+  const items: BlockNode[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const marker = lines[i].match(LIST_ITEM);
+    if (!marker || /\d/.test(marker[2]) !== ordered) break;
+
+    const [whole, indent] = marker;
+    const contentIndent = whole.length === indent.length + marker[2].length ? whole.length + 1 : whole.length;
+    const itemLines = [lines[i].slice(whole.length)];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      const leading = line.length - line.trimStart().length;
+
+      if (isBlank(line)) {
+        // A blank line only continues the item when indented content follows it
+        const next = lines.slice(i + 1).find(l => !isBlank(l));
+        if (next === undefined || next.length - next.trimStart().length < contentIndent) break;
+        itemLines.push('');
+      } else if (leading >= contentIndent) {
+        itemLines.push(line.slice(contentIndent));
+      } else if (!startsBlock(line) && !isBlank(itemLines[itemLines.length - 1])) {
+        itemLines.push(line.trim()); // Lazy continuation of the item's paragraph
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    items.push(parseMarkdown(itemLines.join('\n')));
+
+    // Blank lines between items keep the list going when another item of the same kind follows
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    const sibling = lines[next]?.match(LIST_ITEM);
+    if (!sibling || sibling[1].length > first[1].length + 3) break;
+    i = next;
+  }
+
+  blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items });
+  return i;
+}
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|<>~]/;
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  let i = 0;
+
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+  const push = (node: InlineNode) => {
+    flush();
+    nodes.push(node);
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = rest.match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        const code = text.slice(i + ticks.length, end);
+        push({ type: 'code', text: /^ .* $/.test(code) ? code.slice(1, -1) : code });
+        i = end + ticks.length;
+        continue;
+      }
+      plain += ticks;
+      i += ticks.length;
+      continue;
+    }
+
+    const strong = rest.match(/^(\*\*|__)(?=\S)([^\n]*?\S)\1/);
+    if (strong) {
+      push({ type: 'strong', children: parseInline(strong[2]) });
+      i += strong[0].length;
+      continue;
+    }
+
+    // Emphasis can wrap strong text (`*a **b** c*`). Underscores inside words (snake_case) are left alone.
+    const emphasis = rest.match(/^\*(?!\s)((?:\*\*[^\n*]+?\*\*|[^\n*])+?)(?<!\s)\*(?!\*)/) ?? (
+      /\w/.test(text[i - 1] ?? '') ? null : rest.match(/^_(?=[^\s_])([^\n_]*?[^\s_])_(?!\w)/)
+    );
+    if (emphasis) {
+      push({ type: 'emphasis', children: parseInline(emphasis[1]) });
+      i += emphasis[0].length;
+      continue;
+    }
+
+    // Destinations may contain balanced parentheses, as in Wikipedia URLs
+    const link = rest.match(/^\[([^\]\n]+)\]\(\s*<?((?:[^\s()<>]|\([^\s()<>]*\))+)>?(?:\s+"[^"]*")?\s*\)/);
+    if (link) {
+      const href = safeHref(link[2]);
+      if (href) push({ type: 'link', href, children: parseInline(link[1]) });
+      else plain += link[1];
+      i += link[0].length;
+      continue;
+    }
+
+    const autolink = rest.match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+    if (autolink) {
+      push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+      i += autolink[0].length;
+      continue;
+    }
+
+    plain += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
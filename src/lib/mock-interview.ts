@@ -0,0 +1,121 @@
+// Mock interviews: per-question time budgets and the hiring-panel scorecard
+
+import { Question, QuestionType } from '@/data/types';
+import { PracticeSession, SessionResult } from '@/store/practice-store';
+import { isResultGraded } from './analytics';
+
+export type HiringRecommendation = 'strong-hire' | 'hire' | 'lean-hire' | 'no-hire' | 'strong-no-hire';
+
+export interface CompetencyRating {
+  id: QuestionType | 'time-management';
+  label: string;
+  rating: number; // 1-4, as on a panel rubric
+  score: number; // 0-100
+  questions: number;
+  evidence: string;
+}
+
+export interface MockScorecard {
+  overallScore: number; // 0-100, unanswered questions count as zero
+  recommendation: HiringRecommendation;
+  competencies: CompetencyRating[];
+  pendingGrades: number; // Answers still waiting for an automatic grade
+}
+
+const MIN_BUDGET_SECONDS = 60;
+
+export const recommendationLabels: Record<HiringRecommendation, string> = {
+  'strong-hire': 'Strong Hire',
+  hire: 'Hire',
+  'lean-hire': 'Lean Hire',
+  'no-hire': 'No Hire',
+  'strong-no-hire': 'Strong No Hire',
+};
+
+const competencyLabels: Record<QuestionType, string> = {
+  conceptual: 'Technical knowledge',
+  coding: 'Coding',
+  debugging: 'Debugging',
+  'system-design': 'System design',
+};
+
+const ratingLabels = ['', 'Poor', 'Mixed', 'Good', 'Excellent'];
+
+// The question's own estimate, with at least a minute to read and answer
+export function getQuestionTimeBudget(question: Question): number {
+  return Math.max(MIN_BUDGET_SECONDS, Math.round(question.timeEstimate * 60));
+}
+
+// Session time limit in minutes: the sum of every question's budget
+export function getMockTimeLimit(questions: Question[]): number {
+  return Math.ceil(questions.reduce((sum, q) => sum + getQuestionTimeBudget(q), 0) / 60);
+}
+
+export function isTimedOut(result: SessionResult, question: Question): boolean {
+  return result.timeTaken >= getQuestionTimeBudget(question);
+}
+
+function toRating(score: number): number {
+  if (score >= 85) return 4;
+  if (score >= 70) return 3;
+  if (score >= 50) return 2;
+  return 1;
+}
+
+function toRecommendation(score: number, lowestRating: number): HiringRecommendation {
+  // One poor competency caps the outcome, as a single strong "no" would on a real panel
+  if (score >= 85 && lowestRating >= 3) return 'strong-hire';
+  if (score >= 70 && lowestRating >= 2) return 'hire';
+  if (score >= 55) return 'lean-hire';
+  if (score >= 35) return 'no-hire';
+  return 'strong-no-hire';
+}
+
+export function buildScorecard(session: PracticeSession): MockScorecard {
+  const resultFor = (question: Question) => session.results.find(r => r.questionId === question.id);
+  const scoreOf = (question: Question) => {
+    const result = resultFor(question);
+    return result && isResultGraded(result) ? result.score : 0;
+  };
+  const percent = (scores: number[]) =>
+    scores.length === 0 ? 0 : Math.round((scores.reduce((sum, s) => sum + s, 0) / scores.length) * 100);
+
+  const types = [...new Set(session.questions.map(q => q.type))];
+  const competencies: CompetencyRating[] = types.map(type => {
+    const questions = session.questions.filter(q => q.type === type);
+    const score = percent(questions.map(scoreOf));
+    const strong = questions.filter(q => scoreOf(q) >= 0.75).length;
+    return {
+      id: type,
+      label: competencyLabels[type],
+      rating: toRating(score),
+      score,
+      questions: questions.length,
+      evidence: `${ratingLabels[toRating(score)]}: ${strong} of ${questions.length} answered strongly.`,
+    };
+  });
+
+  const answered = session.questions.filter(q => resultFor(q));
+  const onTime = answered.filter(q => !isTimedOut(resultFor(q)!, q)).length;
+  const unanswered = session.questions.length - answered.length;
+  const timeScore = percent(session.questions.map(q => (resultFor(q) && !isTimedOut(resultFor(q)!, q) ? 1 : 0)));
+  competencies.push({
+    id: 'time-management',
+    label: 'Time management',
+    rating: toRating(timeScore),
+    score: timeScore,
+    questions: session.questions.length,
+    evidence: `${onTime} of ${session.questions.length} answered within budget`
+      + (unanswered > 0 ? `; ${unanswered} not reached.` : '.'),
+  });
+
+  const overallScore = percent(session.questions.map(scoreOf));
+  const lowestRating = Math.min(...competencies.filter(c => c.id !== 'time-management').map(c => c.rating));
+
+  return {
+    overallScore,
+    recommendation: toRecommendation(overallScore, lowestRating),
+    competencies,
+    pendingGrades: session.results.filter(r => !isResultGraded(r)).length,
+  };
+}
@@ -0,0 +1,18 @@
+// Mirrors the bundler URL of the installed sandpack-client (2.19.8)
+const SANDPACK_BUNDLER_URL = 'https://2-19-8-sandpack.codesandbox.io/';
+
+let reachable: Promise<boolean> | null = null;
+
+// Probed once per page load; an opaque response still proves the host answered
+export function isSandpackBundlerReachable(timeoutMs = 4000): Promise<boolean> {
+  if (!reachable) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    reachable = fetch(SANDPACK_BUNDLER_URL, { mode: 'no-cors', cache: 'no-store', signal: controller.signal })
+      .then(() => true)
+      .catch(() => false)
+      .finally(() => clearTimeout(timer));
+  }
+  return reachable;
+}
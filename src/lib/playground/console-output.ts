@@ -0,0 +1,152 @@
+import { transform } from 'sucrase';
+
+// Runs a predict-output question's `codeExample` and records what it logs. Shared by the
+// browser worker and `npm run record:outputs`, so both format values the same way.
+
+export interface OutputRun {
+  lines: string[];
+  error?: string; // Set when the code threw before finishing or never settled
+}
+
+// Close to Node's util.inspect for the values puzzles log, but on one line and without
+// engine-specific details, so the recorded output is the same wherever it was run
+export function formatConsoleArgs(args: unknown[]): string {
+  return args.map(arg => (typeof arg === 'string' ? arg : inspect(arg, 0, new Set()))).join(' ');
+}
+
+const MAX_DEPTH = 2;
+
+function inspect(value: unknown, depth: number, seen: Set<object>): string {
+  switch (typeof value) {
+    case 'string':
+      return `'${value.replace(/'/g, "\\'")}'`;
+    case 'number':
+      return Object.is(value, -0) ? '-0' : String(value);
+    case 'bigint':
+      return `${value}n`;
+    case 'symbol':
+      return value.toString();
+    case 'undefined':
+      return 'undefined';
+    case 'function':
+      if (/^class\b/.test(Function.prototype.toString.call(value))) return `[class ${value.name || '(anonymous)'}]`;
+      return `[Function: ${value.name || '(anonymous)'}]`;
+    case 'boolean':
+      return String(value);
+  }
+
+  if (value === null) return 'null';
+  const object = value as object;
+  if (seen.has(object)) return '[Circular]';
+  if (object instanceof Error) return `${object.name}: ${object.message}`;
+  if (object instanceof Date) return Number.isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString();
+  if (object instanceof RegExp) return String(object);
+  if (object instanceof Promise) return 'Promise {}';
+
+  const nested = (item: unknown) => inspect(item, depth + 1, seen);
+  const wrap = (open: string, items: string[], close: string) =>
+    items.length === 0 ? `${open}${close}` : `${open} ${items.join(', ')} ${close}`;
+
+  if (depth > MAX_DEPTH) {
+    return Array.isArray(object) ? '[Array]' : `[${object.constructor?.name ?? 'Object'}]`;
+  }
+
+  seen.add(object);
+  try {
+    if (Array.isArray(object)) return wrap('[', object.map(nested), ']');
+    if (object instanceof Map) {
+      return wrap(`Map(${object.size}) {`, [...object].map(([k, v]) => `${nested(k)} => ${nested(v)}`), '}');
+    }
+    if (object instanceof Set) return wrap(`Set(${object.size}) {`, [...object].map(nested), '}');
+
+    const entries = Object.entries(object).map(([key, item]) =>
+      `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`}: ${nested(item)}`);
+    const name = object.constructor && object.constructor !== Object ? `${object.constructor.name} ` : '';
+    return wrap(`${name}{`, entries, '}');
+  } finally {
+    seen.delete(object);
+  }
+}
+
+export interface RunOptions {
+  settleMs?: number; // How long to wait for pending timers before giving up
+}
+
+// Executes the code with a captured console and its own timer functions, then waits until
+// no timers are pending, so output from promises and timeouts is included in order
+export async function runForOutput(code: string, { settleMs = 2000 }: RunOptions = {}): Promise<OutputRun> {
+  const lines: string[] = [];
+  const log = (...args: unknown[]) => { lines.push(formatConsoleArgs(args)); };
+  const capturedConsole = { log, info: log, warn: log, error: log, debug: log };
+
+  let error: string | undefined;
+  const fail = (thrown: unknown) => {
+    error ??= thrown instanceof Error ? `${thrown.name}: ${thrown.message}` : String(thrown);
+  };
+
+  type TimerId = ReturnType<typeof setTimeout>;
+  const timers = new Set<TimerId>();
+  const guard = (fn: unknown, args: unknown[]) => {
+    try {
+      if (typeof fn === 'function') fn(...args);
+    } catch (thrown) {
+      fail(thrown);
+    }
+  };
+  const timerGlobals = {
+    setTimeout: (fn: unknown, ms?: number, ...args: unknown[]) => {
+      const id: TimerId = setTimeout(() => {
+        timers.delete(id);
+        guard(fn, args);
+      }, ms);
+      timers.add(id);
+      return id;
+    },
+    setInterval: (fn: unknown, ms?: number, ...args: unknown[]) => {
+      const id: TimerId = setInterval(() => guard(fn, args), ms);
+      timers.add(id);
+      return id;
+    },
+    clearTimeout: (id: TimerId) => {
+      clearTimeout(id);
+      timers.delete(id);
+    },
+    clearInterval: (id: TimerId) => {
+      clearInterval(id);
+      timers.delete(id);
+    },
+  };
+
+  const require = (name: string) => {
+    throw new Error(`Module "${name}" is not available when recording output`);
+  };
+
+  try {
+    const compiled = transform(code, {
+      transforms: ['typescript', 'jsx', 'imports'],
+      jsxRuntime: 'automatic',
+      production: true,
+      filePath: 'example.tsx',
+    }).code;
+    const globals = { console: capturedConsole, ...timerGlobals };
+    const names = Object.keys(globals);
+    const run = new Function('require', 'module', 'exports', ...names, compiled);
+    const result = run(require, { exports: {} }, {}, ...Object.values(globals));
+    if (result instanceof Promise) result.catch(fail);
+  } catch (thrown) {
+    fail(thrown);
+  }
+
+  // Microtasks run before each poll, so resolved promises have logged by the time timers are counted
+  const deadline = Date.now() + settleMs;
+  do {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  } while (timers.size > 0 && Date.now() < deadline);
+
+  if (timers.size > 0) {
+    timers.forEach(id => clearInterval(id));
+    error ??= `Timers were still pending after ${settleMs}ms`;
+  }
+
+  return error ? { lines, error } : { lines };
+}
@@ -0,0 +1,15 @@
+import { OutputRun, runForOutput } from './console-output';
+
+export interface OutputRequest {
+  id: number;
+  code: string;
+}
+
+export type OutputResponse = { id: number } & OutputRun;
+
+// Keeps the example's loops and timers off the main thread; a runaway one is ended by terminating the worker
+self.onmessage = async (event: MessageEvent<OutputRequest>) => {
+  const { id, code } = event.data;
+  const run = await runForOutput(code);
+  self.postMessage({ id, ...run } satisfies OutputResponse);
+};
@@ -0,0 +1,44 @@
+import type { OutputRun } from './console-output';
+import type { OutputRequest, OutputResponse } from './console-output.worker';
+
+const TIMEOUT_MS = 5000;
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, (run: OutputRun) => void>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./console-output.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<OutputResponse>) => {
+      const resolve = pending.get(event.data.id);
+      if (!resolve) return;
+      pending.delete(event.data.id);
+
+      const { lines, error } = event.data;
+      resolve(error ? { lines, error } : { lines });
+    };
+  }
+  return worker;
+}
+
+// A synchronous infinite loop never lets the worker answer, so it is replaced instead
+function restartWorker(reason: string) {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(resolve => resolve({ lines: [], error: reason }));
+  pending.clear();
+}
+
+// Records the console output of a predict-output question's code in a Web Worker
+export function recordOutput(code: string): Promise<OutputRun> {
+  const id = nextId++;
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => restartWorker(`The code did not finish within ${TIMEOUT_MS / 1000}s`), TIMEOUT_MS);
+    pending.set(id, (run) => {
+      clearTimeout(timer);
+      resolve(run);
+    });
+    getWorker().postMessage({ id, code } satisfies OutputRequest);
+  });
+}
@@ -0,0 +1,92 @@
+import { describe, it, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { JSDOM } from 'jsdom';
+
+// The playground ships in production builds of React, which have no React.act()
+(process.env as Record<string, string>).NODE_ENV = 'production';
+
+const { window } = new JSDOM('<!doctype html><html><body></body></html>');
+Object.assign(globalThis, {
+  window,
+  document: window.document,
+  Node: window.Node,
+  Element: window.Element,
+  HTMLElement: window.HTMLElement,
+  Event: window.Event,
+  MouseEvent: window.MouseEvent,
+  KeyboardEvent: window.KeyboardEvent,
+  FocusEvent: window.FocusEvent,
+});
+
+let runTests: typeof import('./runner').runTests;
+
+before(async () => {
+  // Imported after NODE_ENV is set, so React loads its production build
+  ({ runTests } = await import('./runner'));
+});
+
+// Transpiled solutions and test files are CommonJS, so these are written the way the bundler emits them
+const counterApp = `
+const React = require('react');
+function App() {
+  const [count, setCount] = React.useState(0);
+  const [label, setLabel] = React.useState('');
+  React.useEffect(() => setLabel(count === 0 ? 'none yet' : 'clicked'), [count]);
+  return React.createElement('button', { onClick: () => setCount(count + 1) }, 'Count: ' + count + ' (' + label + ')');
+}
+exports.default = App;
+exports.useDebounce = function useDebounce(value, delay) {
+  const [debounced, setDebounced] = React.useState(value);
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+  return debounced;
+};
+`;
+
+const header = `
+const React = require('react');
+const { render, renderHook, screen, fireEvent, act } = require('@testing-library/react');
+const solution = require('./App');
+const App = solution.default;
+`;
+
+describe('runTests', () => {
+  it('renders and handles events without React.act', async () => {
+    mock.method(console, 'error', () => {}); // runTests logs each failure
+    const result = await runTests(counterApp, `${header}
+test('counts clicks', async () => {
+  render(React.createElement(App));
+  fireEvent.click(screen.getByRole('button'));
+  fireEvent.click(screen.getByRole('button'));
+  expect(screen.getByRole('button').textContent).toContain('Count: 2');
+});
+test('fails a wrong expectation', async () => {
+  render(React.createElement(App));
+  expect(screen.getByRole('button').textContent).toContain('Count: 1');
+});`);
+    assert.deepEqual(result, { passed: ['counts clicks'], failed: ['fails a wrong expectation'] });
+    mock.restoreAll();
+  });
+
+  it('waits for effects and timers inside an awaited act()', async () => {
+    const result = await runTests(counterApp, `${header}
+test('updates after the effect runs', async () => {
+  render(React.createElement(App));
+  fireEvent.click(screen.getByRole('button'));
+  await act(async () => {});
+  expect(screen.getByRole('button').textContent).toBe('Count: 1 (clicked)');
+});
+test('debounces', async () => {
+  const { result, rerender } = renderHook(({ value }) => solution.useDebounce(value, 20), {
+    initialProps: { value: 'a' },
+  });
+  rerender({ value: 'ab' });
+  expect(result.current).toBe('a');
+  await act(() => new Promise(resolve => setTimeout(resolve, 40)));
+  expect(result.current).toBe('ab');
+});`);
+    assert.deepEqual(result, { passed: ['updates after the effect runs', 'debounces'], failed: [] });
+  });
+});
@@ -0,0 +1,271 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import * as JsxRuntime from 'react/jsx-runtime';
+import { TestRunResult } from './tests';
+
+// Messages between CodePlayground and the sandboxed /playground-runner iframe
+export type RunnerRequest = {
+  type: 'run';
+  app: string; // Transpiled CommonJS for /App.tsx
+  tests: string | null; // Transpiled CommonJS for the generated test file
+};
+
+export type RunnerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'tests'; result: TestRunResult };
+
+type Exports = Record<string, unknown>;
+
+type TestCase = { name: string; fn: () => unknown };
+
+// Everything the solution can import resolves to the app's own bundled copies
+const baseModules: Record<string, unknown> = {
+  'react': React,
+  'react-dom': ReactDOM,
+  'react-dom/client': ReactDOMClient,
+  'react/jsx-runtime': JsxRuntime,
+};
+
+function evaluate(code: string, modules: Record<string, unknown>, globals: Record<string, unknown> = {}): Exports {
+  const cjsModule = { exports: {} as Exports };
+  const require = (name: string) => {
+    if (!(name in modules)) {
+      throw new Error(`Module "${name}" is not available in the offline runner`);
+    }
+    return modules[name];
+  };
+
+  const names = Object.keys(globals);
+  const run = new Function('require', 'module', 'exports', ...names, code);
+  run(require, cjsModule, cjsModule.exports, ...names.map(name => globals[name]));
+  return cjsModule.exports;
+}
+
+export function renderApp(app: string, container: HTMLElement): () => void {
+  const exports = evaluate(app, baseModules);
+  const App = exports.default as React.ComponentType | undefined;
+  if (typeof App !== 'function') {
+    throw new Error('App.tsx must have a default export component');
+  }
+
+  const root = ReactDOMClient.createRoot(container);
+  root.render(React.createElement(App));
+  return () => root.unmount();
+}
+
+export async function runTests(app: string, tests: string): Promise<TestRunResult> {
+  const cases: TestCase[] = [];
+  const library = createTestingLibrary();
+
+  const solution = evaluate(app, baseModules);
+  evaluate(
+    tests,
+    { ...baseModules, './App': solution, '@testing-library/react': library },
+    { test: (name: string, fn: () => unknown) => cases.push({ name, fn }), expect },
+  );
+
+  const result: TestRunResult = { passed: [], failed: [] };
+  for (const testCase of cases) {
+    try {
+      await testCase.fn();
+      result.passed.push(testCase.name);
+    } catch (error) {
+      console.error(`${testCase.name}:`, error);
+      result.failed.push(testCase.name);
+    } finally {
+      library.cleanup();
+    }
+  }
+  return result;
+}
+
+// A small subset of Jest's expect, enough for question tests
+function expect(actual: unknown) {
+  const matchers = (negate: boolean) => {
+    const check = (pass: boolean, message: string) => {
+      if (pass === negate) {
+        throw new Error(`Expected ${format(actual)} ${negate ? 'not ' : ''}${message}`);
+      }
+    };
+
+    return {
+      toBe: (expected: unknown) => check(Object.is(actual, expected), `to be ${format(expected)}`),
+      toEqual: (expected: unknown) => check(format(actual) === format(expected), `to equal ${format(expected)}`),
+      toBeUndefined: () => check(actual === undefined, 'to be undefined'),
+      toBeDefined: () => check(actual !== undefined, 'to be defined'),
+      toBeNull: () => check(actual === null, 'to be null'),
+      toBeTruthy: () => check(!!actual, 'to be truthy'),
+      toBeFalsy: () => check(!actual, 'to be falsy'),
+      toBeGreaterThan: (expected: number) => check((actual as number) > expected, `to be greater than ${expected}`),
+      toBeLessThan: (expected: number) => check((actual as number) < expected, `to be less than ${expected}`),
+      toContain: (expected: unknown) =>
+        check((actual as string | unknown[]).includes(expected as never), `to contain ${format(expected)}`),
+      toHaveLength: (expected: number) =>
+        check((actual as { length: number }).length === expected, `to have length ${expected}`),
+      toThrow: () => {
+        let threw = false;
+        try {
+          (actual as () => unknown)();
+        } catch {
+          threw = true;
+        }
+        check(threw, 'to throw');
+      },
+    };
+  };
+
+  return { ...matchers(false), not: matchers(true) };
+}
+
+function format(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'function') return '[Function]';
+  if (value instanceof Element) return `<${value.tagName.toLowerCase()}>`;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+// Implicit ARIA roles for the elements question tests tend to query
+const roleSelectors: Record<string, string> = {
+  button: 'button, [role="button"]',
+  textbox: 'input:not([type]), input[type="text"], input[type="email"], input[type="search"], textarea, [role="textbox"]',
+  checkbox: 'input[type="checkbox"], [role="checkbox"]',
+  heading: 'h1, h2, h3, h4, h5, h6, [role="heading"]',
+  link: 'a[href], [role="link"]',
+  list: 'ul, ol, [role="list"]',
+  listitem: 'li, [role="listitem"]',
+};
+
+type TextMatch = string | RegExp;
+
+function matchesText(text: string | null, match: TextMatch): boolean {
+  const value = (text ?? '').trim();
+  return typeof match === 'string' ? value === match : match.test(value);
+}
+
+// React schedules updates from effects, timers and promises as tasks of their own, and each commit
+// can queue another, so a few rounds of the event loop let that work land
+async function settle() {
+  for (let i = 0; i < 3; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
+
+// Minimal stand-in for @testing-library/react. React.act() only exists in development builds, so
+// renders and events go through flushSync, and the async act() also waits for follow-up work.
+function createTestingLibrary() {
+  const mounted: { root: ReactDOMClient.Root; container: HTMLElement }[] = [];
+
+  const act = async (callback: () => unknown) => {
+    let result: unknown;
+    ReactDOM.flushSync(() => {
+      result = callback();
+    });
+    await result;
+    await settle();
+  };
+
+  const render = (ui: React.ReactNode) => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const root = ReactDOMClient.createRoot(container);
+    mounted.push({ root, container });
+    ReactDOM.flushSync(() => root.render(ui));
+
+    return {
+      container,
+      rerender: (next: React.ReactNode) => ReactDOM.flushSync(() => root.render(next)),
+      unmount: () => ReactDOM.flushSync(() => root.unmount()),
+    };
+  };
+
+  const renderHook = <P, R>(callback: (props: P) => R, options: { initialProps?: P } = {}) => {
+    const result = { current: undefined as R };
+    function HookHost({ hookProps }: { hookProps: P }) {
+      result.current = callback(hookProps);
+      return null;
+    }
+
+    const view = render(React.createElement(HookHost, { hookProps: options.initialProps as P }));
+    return {
+      result,
+      rerender: (props?: P) => view.rerender(React.createElement(HookHost, { hookProps: props as P })),
+      unmount: view.unmount,
+    };
+  };
+
+  const elements = () => Array.from(document.body.querySelectorAll<HTMLElement>('*'));
+
+  const queryAll = {
+    text: (match: TextMatch) =>
+      elements().filter(el =>
+        Array.from(el.childNodes).some(node => node.nodeType === Node.TEXT_NODE && matchesText(el.textContent, match))),
+    role: (role: string, options: { name?: TextMatch } = {}) =>
+      Array.from(document.body.querySelectorAll<HTMLElement>(roleSelectors[role] ?? `[role="${role}"]`)).filter(el =>
+        options.name === undefined
+          || matchesText(el.getAttribute('aria-label') ?? el.textContent, options.name)),
+    testId: (id: string) => Array.from(document.body.querySelectorAll<HTMLElement>(`[data-testid="${id}"]`)),
+    placeholder: (match: TextMatch) =>
+      Array.from(document.body.querySelectorAll<HTMLElement>('[placeholder]'))
+        .filter(el => matchesText(el.getAttribute('placeholder'), match)),
+  };
+
+  const getOne = (found: HTMLElement[], description: string) => {
+    if (found.length === 0) throw new Error(`Unable to find an element with ${description}`);
+    return found[0];
+  };
+
+  const screen = {
+    getByText: (match: TextMatch) => getOne(queryAll.text(match), `text ${match}`),
+    queryByText: (match: TextMatch) => queryAll.text(match)[0] ?? null,
+    getAllByText: (match: TextMatch) => queryAll.text(match),
+    getByRole: (role: string, options?: { name?: TextMatch }) => getOne(queryAll.role(role, options), `role ${role}`),
+    queryByRole: (role: string, options?: { name?: TextMatch }) => queryAll.role(role, options)[0] ?? null,
+    getAllByRole: (role: string, options?: { name?: TextMatch }) => queryAll.role(role, options),
+    getByTestId: (id: string) => getOne(queryAll.testId(id), `data-testid ${id}`),
+    getByPlaceholderText: (match: TextMatch) => getOne(queryAll.placeholder(match), `placeholder ${match}`),
+  };
+
+  const dispatch = (element: Element, event: Event) => {
+    ReactDOM.flushSync(() => {
+      element.dispatchEvent(event);
+    });
+  };
+
+  // React tracks input values itself, so the native setter has to be used before firing
+  const setValue = (element: Element, value: string) => {
+    const prototype = Object.getPrototypeOf(element);
+    Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(element, value);
+  };
+
+  const fireEvent = {
+    click: (element: Element) => dispatch(element, new MouseEvent('click', { bubbles: true, cancelable: true })),
+    change: (element: Element, init: { target: { value: string } }) => {
+      setValue(element, init.target.value);
+      dispatch(element, new Event('input', { bubbles: true }));
+    },
+    input: (element: Element, init: { target: { value: string } }) => {
+      setValue(element, init.target.value);
+      dispatch(element, new Event('input', { bubbles: true }));
+    },
+    submit: (element: Element) => dispatch(element, new Event('submit', { bubbles: true, cancelable: true })),
+    keyDown: (element: Element, init: KeyboardEventInit) =>
+      dispatch(element, new KeyboardEvent('keydown', { bubbles: true, ...init })),
+    focus: (element: Element) => dispatch(element, new FocusEvent('focusin', { bubbles: true })),
+    blur: (element: Element) => dispatch(element, new FocusEvent('focusout', { bubbles: true })),
+  };
+
+  const cleanup = () => {
+    mounted.splice(0).forEach(({ root, container }) => {
+      ReactDOM.flushSync(() => root.unmount());
+      container.remove();
+    });
+  };
+
+  return { render, renderHook, screen, fireEvent, act, cleanup };
+}
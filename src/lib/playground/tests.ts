@@ -0,0 +1,22 @@
+import { CodeTest } from '@/data/types';
+
+export interface TestRunResult {
+  passed: string[];
+  failed: string[];
+}
+
+export const TEST_FILE_PATH = '/App.test.tsx';
+
+// Test bodies get the solution module (`solution`, `App`) and Testing Library helpers in scope
+export function buildTestFile(tests: CodeTest[]): string {
+  const cases = tests
+    .map(t => `test(${JSON.stringify(t.name)}, async () => {\n${t.code}\n});`)
+    .join('\n\n');
+
+  return `import React from 'react';
+import { render, renderHook, screen, fireEvent, act } from '@testing-library/react';
+import App, * as solution from './App';
+
+${cases}
+`;
+}
@@ -0,0 +1,29 @@
+import type { TranspileRequest, TranspileResponse } from './transpile.worker';
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (code: string) => void; reject: (error: Error) => void }>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./transpile.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<TranspileResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+
+      if ('error' in event.data) request.reject(new Error(event.data.error));
+      else request.resolve(event.data.code);
+    };
+  }
+  return worker;
+}
+
+// Transpiles off the main thread so typing in the editor stays responsive
+export function transpile(code: string, filePath: string): Promise<string> {
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, code, filePath } satisfies TranspileRequest);
+  });
+}
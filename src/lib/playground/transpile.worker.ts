@@ -0,0 +1,27 @@
+import { transform } from 'sucrase';
+
+export interface TranspileRequest {
+  id: number;
+  code: string;
+  filePath: string;
+}
+
+export type TranspileResponse =
+  | { id: number; code: string }
+  | { id: number; error: string };
+
+// TSX -> CommonJS so the runner iframe can evaluate it with its own `require`
+self.onmessage = (event: MessageEvent<TranspileRequest>) => {
+  const { id, code, filePath } = event.data;
+  try {
+    const output = transform(code, {
+      transforms: ['typescript', 'jsx', 'imports'],
+      jsxRuntime: 'automatic',
+      production: true,
+      filePath,
+    });
+    self.postMessage({ id, code: output.code } satisfies TranspileResponse);
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies TranspileResponse);
+  }
+};
@@ -0,0 +1,75 @@
+// Playlists are shared as a base64url-encoded JSON payload, either on its own or in a /playlists?import= link
+
+export interface SharedPlaylist {
+  v: 1;
+  name: string;
+  questionIds: string[];
+}
+
+const PAYLOAD_VERSION = 1;
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+export function toSharedPlaylist(name: string, questionIds: string[]): SharedPlaylist {
+  return { v: PAYLOAD_VERSION, name, questionIds };
+}
+
+export function encodePlaylist(playlist: SharedPlaylist): string {
+  return toBase64Url(JSON.stringify(playlist));
+}
+
+export function getPlaylistShareUrl(playlist: SharedPlaylist, origin: string): string {
+  return `${origin}/playlists?import=${encodePlaylist(playlist)}`;
+}
+
+function parsePlaylistJson(json: string): SharedPlaylist {
+  const parsed = JSON.parse(json);
+  
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new Error('Playlist payload must be an object');
+  }
+  if (typeof parsed.name !== 'string' || !parsed.name.trim()) {
+    throw new Error('Playlist payload is missing a name');
+  }
+  if (!Array.isArray(parsed.questionIds) || !parsed.questionIds.every((id: unknown) => typeof id === 'string')) {
+    throw new Error('Playlist payload must list question IDs');
+  }
+  
+  return toSharedPlaylist(parsed.name.trim(), parsed.questionIds);
+}
+
+// Accepts a share link, a bare encoded payload or raw JSON
+export function decodePlaylist(input: string): SharedPlaylist {
+  const trimmed = input.trim();
+  
+  if (trimmed.startsWith('{')) {
+    return parsePlaylistJson(trimmed);
+  }
+  
+  let json: string;
+  try {
+    // Inside the try: a malformed `%` escape in a pasted link is just another invalid link
+    const encoded = trimmed.includes('import=')
+      ? decodeURIComponent(trimmed.split('import=')[1].split('&')[0])
+      : trimmed;
+    json = fromBase64Url(encoded);
+    JSON.parse(json);
+  } catch {
+    throw new Error('Not a valid playlist link or JSON payload');
+  }
+  
+  return parsePlaylistJson(json);
+}
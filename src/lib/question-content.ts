@@ -0,0 +1,83 @@
+import { parse, stringify } from 'yaml';
+import { CategoryContent, Question } from '@/data/types';
+import { RawFields, checkQuestionData, createFieldChecker, questionFields } from './question-schema';
+
+// Question files are Markdown: YAML front-matter holds every Question field except
+// `answer`, which is the Markdown body. Categories live in `_category.md` (front-matter only).
+
+export const CATEGORY_FILE = '_category.md';
+
+const categoryKeys = ['name', 'label', 'description', 'icon', 'color', 'order'] as const;
+
+export function splitFrontMatter(source: string): { data: RawFields; body: string } {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    throw new Error('missing front-matter (the file must start with a --- block)');
+  }
+
+  const data = parse(match[1]);
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('front-matter must be a YAML mapping');
+  }
+  return { data: data as RawFields, body: match[2] };
+}
+
+export function parseQuestionFile(fileName: string, source: string): Question {
+  const { data, body } = splitFrontMatter(source);
+  const { question, errors } = checkQuestionData({ ...data, answer: body.trim() });
+
+  if ('answer' in data) {
+    errors.push('`answer` belongs in the Markdown body, not the front-matter');
+  }
+  if (question && fileName !== `${question.id}.md`) {
+    errors.push(`file name must match the id (${question.id}.md)`);
+  }
+
+  if (!question || errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return question;
+}
+
+export function parseCategoryFile(id: string, source: string): CategoryContent {
+  const { data } = splitFrontMatter(source);
+  const check = createFieldChecker(data);
+
+  const category: CategoryContent = {
+    id,
+    name: check.string('name') ?? '',
+    label: check.string('label') ?? '',
+    description: check.string('description') ?? '',
+    icon: check.string('icon') ?? '',
+    color: check.string('color') ?? '',
+    order: check.number('order'),
+  };
+
+  check.unknownKeys(categoryKeys);
+  if (check.errors.length > 0) {
+    throw new Error(check.errors.join('; '));
+  }
+  return category;
+}
+
+export function serializeQuestion(question: Question): string {
+  const data: RawFields = {};
+  questionFields.forEach(key => {
+    if (key === 'answer') return;
+    if (question[key] !== undefined) data[key] = question[key];
+  });
+  return `---\n${stringify(data, { lineWidth: 0 })}---\n\n${question.answer.trim()}\n`;
+}
+
+export function serializeCategory(category: CategoryContent): string {
+  const data: RawFields = {};
+  categoryKeys.forEach(key => {
+    data[key] = category[key];
+  });
+  return `---\n${stringify(data, { lineWidth: 0 })}---\n`;
+}
+
+// Question IDs end in a sequence number, so hooks-2 sorts before hooks-10
+export function compareQuestionIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Question } from '@/data/types';
+import { exportQuestionsCsv, importQuestionPack } from './question-packs';
+
+const question: Question = {
+  id: 'hooks-1',
+  category: 'React Hooks',
+  question: 'What does this effect do?\n\nExplain the cleanup too.',
+  answer: 'It subscribes on mount.\n\nThe cleanup unsubscribes, so "double" subscriptions never pile up.\n',
+  codeExample: '\nuseEffect(() => {\n  const off = subscribe();\n  return off;\n}, []);\n',
+  difficulty: 'intermediate',
+  type: 'conceptual',
+  answerFormat: 'essay',
+  tags: ['hooks', 'effects'],
+  timeEstimate: 3,
+};
+
+describe('CSV packs', () => {
+  it('round-trips multi-line fields exactly, including leading and trailing newlines', () => {
+    const csv = exportQuestionsCsv([question]);
+    const result = importQuestionPack(csv, 'csv', new Set());
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.questions, [question]);
+  });
+
+  it('splits plain `a|b` lists and trims their items', () => {
+    const csv = 'id,category,question,answer,difficulty,type,answerFormat,tags,timeEstimate\n'
+      + 'hooks-2,React Hooks,What is a hook?,A function,beginner,conceptual,essay, hooks | state , 2 \n';
+    const result = importQuestionPack(csv, 'csv', new Set());
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.questions[0].tags, ['hooks', 'state']);
+    assert.equal(result.questions[0].timeEstimate, 2);
+  });
+});
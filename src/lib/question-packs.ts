@@ -0,0 +1,214 @@
+import { Question } from '@/data/types';
+import { RawFields, checkQuestionData, questionFields } from './question-schema';
+import { validateQuestion } from './question-validation';
+
+export type PackFormat = 'json' | 'csv';
+
+export interface QuestionPack {
+  version: 1;
+  name?: string;
+  questions: Question[];
+}
+
+export interface PackImportResult {
+  questions: Question[]; // Valid and free of ID collisions
+  errors: string[]; // Shape or consistency problems, per question
+  collisions: string[]; // IDs already in the bank or repeated within the pack
+}
+
+// Lists and nested objects are stored as JSON inside their CSV cell
+const csvJsonFields = new Set(['options', 'steps', 'blanks', 'expectedOutput', 'tests', 'followUp', 'followUpAnswers', 'rubric', 'tags']);
+
+export function exportQuestionsJson(questions: Question[], name?: string): string {
+  const pack: QuestionPack = { version: 1, ...(name ? { name } : {}), questions };
+  return JSON.stringify(pack, null, 2);
+}
+
+export function exportQuestionsCsv(questions: Question[]): string {
+  const rows = questions.map(question =>
+    questionFields.map(field => {
+      const value = question[field];
+      if (value === undefined) return '';
+      return csvJsonFields.has(field) ? JSON.stringify(value) : String(value);
+    })
+  );
+  return toCsv([[...questionFields], ...rows]);
+}
+
+// Anki "Import File" format: front, back and space-separated tags, with HTML enabled
+export function exportAnkiDeck(questions: Question[]): string {
+  const lines = questions.map(question => {
+    const options = question.options
+      ?.map(option => `<li>${escapeHtml(option.text)}</li>`)
+      .join('');
+    const front = escapeHtml(question.question) + (options ? `<ol type="a">${options}</ol>` : '');
+
+    const correct = question.options?.find(option => option.isCorrect);
+    const back = [
+      correct ? `<b>${escapeHtml(correct.text)}</b>` : '',
+      escapeHtml(question.answer),
+      question.codeExample ? `<pre><code>${escapeHtml(question.codeExample)}</code></pre>` : '',
+    ].filter(Boolean).join('<br><br>');
+
+    const tags = [question.category, question.difficulty, ...question.tags]
+      .map(tag => tag.trim().replace(/\s+/g, '_'))
+      .filter(Boolean);
+
+    return [front, back, [...new Set(tags)].join(' ')].map(toAnkiField).join('\t');
+  });
+
+  return ['#separator:tab', '#html:true', '#tags column:3', ...lines].join('\n') + '\n';
+}
+
+// Validates a JSON or CSV pack and separates out IDs that already exist
+export function importQuestionPack(text: string, format: PackFormat, existingIds: Set<string>): PackImportResult {
+  const result: PackImportResult = { questions: [], errors: [], collisions: [] };
+
+  let records: RawFields[];
+  try {
+    records = format === 'json' ? readJsonRecords(text) : readCsvRecords(text);
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : 'Could not read the file');
+    return result;
+  }
+
+  const seen = new Set<string>();
+  records.forEach((record, index) => {
+    const label = typeof record.id === 'string' && record.id ? record.id : `#${index + 1}`;
+    const { question, errors } = checkQuestionData(record);
+    if (!question) {
+      result.errors.push(`${label}: ${errors.join('; ')}`);
+      return;
+    }
+
+    const issues = validateQuestion(question);
+    if (issues.length > 0) {
+      result.errors.push(`${label}: ${issues.map(issue => issue.message).join('; ')}`);
+      return;
+    }
+
+    if (existingIds.has(question.id) || seen.has(question.id)) {
+      result.collisions.push(question.id);
+      return;
+    }
+    seen.add(question.id);
+    result.questions.push(question);
+  });
+
+  return result;
+}
+
+export function detectPackFormat(fileName: string, text: string): PackFormat {
+  if (fileName.toLowerCase().endsWith('.csv')) return 'csv';
+  if (fileName.toLowerCase().endsWith('.json')) return 'json';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+}
+
+function readJsonRecords(text: string): RawFields[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+
+  const questions = Array.isArray(data) ? data : (data as Partial<QuestionPack>)?.questions;
+  if (!Array.isArray(questions)) {
+    throw new Error('Expected an array of questions or an object with a `questions` array');
+  }
+  return questions.map(q => (q && typeof q === 'object' ? q : {}) as RawFields);
+}
+
+function readCsvRecords(text: string): RawFields[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || !header.includes('id')) {
+    throw new Error('CSV needs a header row with Question field names');
+  }
+
+  return rows.map(row => {
+    const record: RawFields = {};
+    header.forEach((field, i) => {
+      // Text is kept as written, so answers and code keep their surrounding newlines
+      const cell = row[i] ?? '';
+      if (!cell.trim()) return;
+
+      if (csvJsonFields.has(field)) {
+        try {
+          record[field] = JSON.parse(cell);
+        } catch {
+          // Plain `a|b|c` lists are accepted for tags and follow-ups
+          record[field] = field === 'tags' || field === 'followUp'
+            ? cell.split('|').map(item => item.trim()).filter(Boolean)
+            : cell;
+        }
+      } else if (field === 'timeEstimate') {
+        record[field] = Number(cell);
+      } else {
+        record[field] = cell;
+      }
+    });
+    return record;
+  });
+}
+
+// RFC 4180: quoted fields may contain commas, quotes ("") and newlines
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+function toCsv(rows: string[][]): string {
+  return rows
+    .map(row => row.map(cell => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br>');
+}
+
+// Tabs and newlines would break the row; quote the field when it needs it
+function toAnkiField(value: string): string {
+  const flat = value.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+  return flat.includes('"') ? `"${flat.replace(/"/g, '""')}"` : flat;
+}
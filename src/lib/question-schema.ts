@@ -0,0 +1,196 @@
+import { Question } from '@/data/types';
+
+export type RawFields = Record<string, unknown>;
+
+const difficulties = ['beginner', 'intermediate', 'senior', 'expert'];
+const questionTypes = ['conceptual', 'coding', 'debugging', 'system-design'];
+const answerFormats = ['essay', 'multiple-choice', 'multi-select', 'ordering', 'fill-blank', 'predict-output'];
+
+// Every Question field in declaration order; anything else is rejected as a typo
+export const questionFields = [
+  'id', 'category', 'subcategory', 'question', 'answer', 'difficulty', 'type', 'answerFormat', 'options',
+  'steps', 'blanks', 'expectedOutput', 'codeExample', 'starterCode', 'tests', 'reactVersion', 'followUp',
+  'followUpAnswers', 'rubric', 'tags', 'timeEstimate',
+] as const;
+
+// `?` marks a field that may be left out
+type FieldType = 'string' | 'boolean' | 'number' | 'string[]' | `${'string' | 'boolean' | 'number' | 'string[]'}?`;
+
+// Collects every problem in the file so authors see them all at once
+export function createFieldChecker(data: RawFields) {
+  const errors: string[] = [];
+
+  return {
+    errors,
+
+    string(key: string, optional = false): string | undefined {
+      const value = data[key];
+      if (value === undefined && optional) return undefined;
+      if (typeof value !== 'string' || !value.trim()) {
+        errors.push(`\`${key}\` must be a non-empty string`);
+        return undefined;
+      }
+      return value;
+    },
+
+    number(key: string): number {
+      const value = data[key];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        errors.push(`\`${key}\` must be a non-negative number`);
+        return 0;
+      }
+      return value;
+    },
+
+    oneOf<T extends string>(key: string, allowed: string[]): T {
+      const value = data[key];
+      if (typeof value !== 'string' || !allowed.includes(value)) {
+        errors.push(`\`${key}\` must be one of ${allowed.join(', ')}`);
+      }
+      return value as T;
+    },
+
+    stringList(key: string, optional = false): string[] | undefined {
+      const value = data[key];
+      if (value === undefined && optional) return undefined;
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        errors.push(`\`${key}\` must be a list of strings`);
+        return [];
+      }
+      return value;
+    },
+
+    objectList<T>(key: string, fields: Record<string, FieldType>): T[] | undefined {
+      const value = data[key];
+      if (value === undefined) return undefined;
+
+      const hasType = (field: unknown, type: FieldType): boolean => {
+        if (type.endsWith('?')) return field === undefined || hasType(field, type.slice(0, -1) as FieldType);
+        if (type === 'string[]') return Array.isArray(field) && field.every(item => typeof item === 'string');
+        if (type === 'number') return typeof field === 'number' && Number.isFinite(field);
+        return typeof field === type;
+      };
+      const valid = Array.isArray(value) && value.every(item =>
+        item && typeof item === 'object'
+          && Object.entries(fields).every(([field, type]) => hasType(item[field], type)));
+      if (!valid) {
+        const shape = Object.entries(fields).map(([field, type]) => `${field}: ${type}`).join(', ');
+        errors.push(`\`${key}\` must be a list of { ${shape} }`);
+        return undefined;
+      }
+      return value as T[];
+    },
+
+    unknownKeys(known: readonly string[]) {
+      Object.keys(data)
+        .filter(key => !known.includes(key))
+        .forEach(key => errors.push(`unknown field \`${key}\``));
+    },
+  };
+}
+
+// Checks untrusted data (front-matter, imported packs) against the Question shape
+export function checkQuestionData(data: RawFields): { question: Question | null; errors: string[] } {
+  const check = createFieldChecker(data);
+
+  const rubric = data.rubric as Question['rubric'];
+  if (rubric !== undefined) check.errors.push(...checkRubric(rubric));
+
+  const question: Question = {
+    id: check.string('id') ?? '',
+    category: check.string('category') ?? '',
+    subcategory: check.string('subcategory', true),
+    question: check.string('question') ?? '',
+    answer: check.string('answer') ?? '',
+    difficulty: check.oneOf('difficulty', difficulties),
+    type: check.oneOf('type', questionTypes),
+    answerFormat: check.oneOf('answerFormat', answerFormats),
+    options: check.objectList('options', { id: 'string', text: 'string', isCorrect: 'boolean' }),
+    steps: check.objectList('steps', { id: 'string', text: 'string' }),
+    blanks: check.objectList('blanks', { accepted: 'string[]' }),
+    expectedOutput: check.stringList('expectedOutput', true),
+    codeExample: check.string('codeExample', true),
+    starterCode: check.string('starterCode', true),
+    tests: check.objectList('tests', { name: 'string', code: 'string' }),
+    reactVersion: check.string('reactVersion', true),
+    followUp: check.stringList('followUp', true),
+    followUpAnswers: check.stringList('followUpAnswers', true),
+    rubric,
+    tags: check.stringList('tags') ?? [],
+    timeEstimate: check.number('timeEstimate'),
+  };
+  check.unknownKeys(questionFields);
+
+  if (check.errors.length > 0) {
+    return { question: null, errors: check.errors };
+  }
+  return { question: dropUndefined(question), errors: [] };
+}
+
+const rubricKeys = ['concepts', 'misconceptions', 'requiredCode'];
+
+// Grading reads every criterion, so a malformed one in a pack or draft would break it later
+export function checkRubric(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || !Array.isArray((value as RawFields).concepts)) {
+    return ['`rubric` must have a `concepts` list'];
+  }
+
+  const rubric = value as RawFields;
+  const check = createFieldChecker(Object.fromEntries(Object.entries(rubric).map(([key, item]) => [`rubric.${key}`, item])));
+  check.objectList('rubric.concepts', { id: 'string', label: 'string', weight: 'number', synonyms: 'string[]?' });
+  check.objectList('rubric.misconceptions', {
+    id: 'string', label: 'string', phrases: 'string[]', penalty: 'number', explanation: 'string?',
+  });
+  const requiredCode = check.objectList<{ id: string; pattern: string; flags?: string }>('rubric.requiredCode', {
+    id: 'string', label: 'string', pattern: 'string', flags: 'string?', weight: 'number',
+  });
+  check.unknownKeys(rubricKeys.map(key => `rubric.${key}`));
+
+  requiredCode?.forEach(({ id, pattern, flags }) => {
+    try {
+      new RegExp(pattern, flags);
+    } catch {
+      check.errors.push(`\`rubric.requiredCode\` pattern for '${id}' is not a valid regular expression`);
+      return;
+    }
+    const problem = findSlowPattern(pattern);
+    if (problem) check.errors.push(`\`rubric.requiredCode\` pattern for '${id}' ${problem}`);
+  });
+  return check.errors;
+}
+
+const MAX_PATTERN_LENGTH = 200;
+
+// The server runs bank rubrics' patterns against every answer. Patterns that can backtrack
+// catastrophically, such as `(a+)+` or `(a|aa)*`, are refused.
+function findSlowPattern(pattern: string): string | undefined {
+  if (pattern.length > MAX_PATTERN_LENGTH) return `is longer than ${MAX_PATTERN_LENGTH} characters`;
+  if (/\\(?:[1-9]|k<)/.test(pattern)) return 'uses a backreference';
+
+  // Per open group: whether it contains a quantifier or an alternation
+  const groups: boolean[] = [false];
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the class; `]` right after `[` or `[^` is literal
+      i += pattern[i + 1] === '^' ? 2 : 1;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const risky = groups.pop() ?? false;
+      if (risky && /[*+{]/.test(pattern[i + 1] ?? '')) return 'repeats a group that is itself repeated or has alternatives';
+      groups[groups.length - 1] ||= risky || /[*+{?]/.test(pattern[i + 1] ?? '');
+    } else if (char === '|' || char === '*' || char === '+' || char === '{') {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return undefined;
+}
+
+function dropUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
@@ -0,0 +1,150 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Question, QuestionBank } from '@/data/types';
+import { validateQuestion, validateQuestionBanks } from './question-validation';
+
+function question(overrides: Partial<Question> = {}): Question {
+  return {
+    id: 'hooks-1',
+    category: 'React Hooks',
+    question: 'What does useEffect do?',
+    answer: 'It runs side effects after render.',
+    difficulty: 'beginner',
+    type: 'conceptual',
+    answerFormat: 'essay',
+    tags: ['hooks'],
+    timeEstimate: 3,
+    ...overrides,
+  };
+}
+
+function multipleChoice(options: [string, boolean][], overrides: Partial<Question> = {}): Question {
+  return question({
+    answerFormat: 'multiple-choice',
+    options: options.map(([text, isCorrect], i) => ({ id: String.fromCharCode(97 + i), text, isCorrect })),
+    ...overrides,
+  });
+}
+
+function bank(questions: Question[], overrides: Partial<QuestionBank> = {}): QuestionBank {
+  return { categoryId: 'hooks', dir: 'content/questions/hooks', label: 'React Hooks', questions, ...overrides };
+}
+
+const rules = (issues: { rule: string }[]) => issues.map(issue => issue.rule);
+
+describe('validateQuestion', () => {
+  it('accepts a complete essay question', () => {
+    assert.deepEqual(validateQuestion(question(), 'React Hooks'), []);
+  });
+
+  it('accepts a multiple-choice question with one correct option', () => {
+    assert.deepEqual(validateQuestion(multipleChoice([['Yes', true], ['No', false]])), []);
+  });
+
+  it('rejects a multiple-choice question with too few options', () => {
+    assert.deepEqual(rules(validateQuestion(multipleChoice([['Yes', true]]))), ['choice-count']);
+  });
+
+  it('rejects a multiple-choice question without exactly one correct option', () => {
+    assert.deepEqual(rules(validateQuestion(multipleChoice([['Yes', true], ['Also yes', true]]))), ['choice-count']);
+    assert.deepEqual(rules(validateQuestion(multipleChoice([['No', false], ['Nope', false]]))), ['choice-count']);
+  });
+
+  it('rejects an essay question with options', () => {
+    const essay = question({ options: [{ id: 'a', text: 'Yes', isCorrect: true }] });
+    assert.deepEqual(rules(validateQuestion(essay)), ['essay-options']);
+  });
+
+  it('rejects a category that does not match the bank label', () => {
+    const issues = validateQuestion(question({ category: 'Hooks' }), 'React Hooks');
+    assert.deepEqual(rules(issues), ['category-mismatch']);
+    assert.match(issues[0].message, /'Hooks' should be 'React Hooks'/);
+  });
+
+  it('skips the category check when no label is given', () => {
+    assert.deepEqual(validateQuestion(question({ category: 'Hooks' })), []);
+  });
+
+  it('rejects a question without tags', () => {
+    assert.deepEqual(rules(validateQuestion(question({ tags: [] }))), ['missing-tags']);
+  });
+
+  it('accepts an ordering question with at least two steps', () => {
+    const ordering = question({ answerFormat: 'ordering', steps: [{ id: 'a', text: 'Render' }, { id: 'b', text: 'Commit' }] });
+    assert.deepEqual(validateQuestion(ordering), []);
+  });
+
+  it('rejects an ordering question with fewer than two steps', () => {
+    const ordering = question({ answerFormat: 'ordering', steps: [{ id: 'a', text: 'Render' }] });
+    assert.deepEqual(rules(validateQuestion(ordering)), ['step-count']);
+  });
+
+  it('accepts a fill-blank question with one blank per marker', () => {
+    const fillBlank = question({
+      question: 'useEffect runs ___ render, and its cleanup runs ___ the next one.',
+      answerFormat: 'fill-blank',
+      blanks: [{ accepted: ['after'] }, { accepted: ['before'] }],
+    });
+    assert.deepEqual(validateQuestion(fillBlank), []);
+  });
+
+  it('rejects a fill-blank question whose blanks do not match its markers', () => {
+    const fillBlank = question({ question: 'useEffect runs ___ render.', answerFormat: 'fill-blank', blanks: [] });
+    assert.deepEqual(rules(validateQuestion(fillBlank)), ['blank-count']);
+    const unanswerable = question({ question: 'useEffect runs ___ render.', answerFormat: 'fill-blank', blanks: [{ accepted: [' '] }] });
+    assert.deepEqual(rules(validateQuestion(unanswerable)), ['blank-count']);
+  });
+
+  it('accepts a predict-output question with recorded output', () => {
+    const predict = question({ answerFormat: 'predict-output', codeExample: "console.log('a');", expectedOutput: ['a'] });
+    assert.deepEqual(validateQuestion(predict), []);
+  });
+
+  it('rejects a predict-output question without recorded output', () => {
+    const predict = question({ answerFormat: 'predict-output', codeExample: "console.log('a');" });
+    assert.deepEqual(rules(validateQuestion(predict)), ['missing-output']);
+  });
+
+  it('accepts fewer follow-up answers than follow-ups', () => {
+    const withFollowUps = question({ followUp: ['Why?', 'When?'], followUpAnswers: ['Because.'] });
+    assert.deepEqual(validateQuestion(withFollowUps), []);
+  });
+
+  it('rejects more follow-up answers than follow-ups', () => {
+    const withFollowUps = question({ followUp: ['Why?'], followUpAnswers: ['Because.', 'Always.'] });
+    assert.deepEqual(rules(validateQuestion(withFollowUps)), ['follow-up-count']);
+  });
+
+  it('rejects fields that belong to another answer format', () => {
+    assert.deepEqual(rules(validateQuestion(question({ steps: [{ id: 'a', text: 'Render' }] }))), ['format-fields']);
+    assert.deepEqual(rules(validateQuestion(question({ blanks: [{ accepted: ['after'] }] }))), ['format-fields']);
+    assert.deepEqual(rules(validateQuestion(question({ expectedOutput: ['a'] }))), ['format-fields']);
+  });
+});
+
+describe('validateQuestionBanks', () => {
+  it('passes banks with unique ids', () => {
+    const banks = [bank([question(), question({ id: 'hooks-2' })])];
+    assert.deepEqual(validateQuestionBanks(banks), []);
+  });
+
+  it('reports an id used again in another bank, with both files', () => {
+    const banks = [
+      bank([question()]),
+      bank([question({ category: 'Next.js' })], { categoryId: 'nextjs', dir: 'content/questions/nextjs', label: 'Next.js' }),
+    ];
+    assert.deepEqual(validateQuestionBanks(banks), [{
+      file: 'content/questions/nextjs/hooks-1.md',
+      questionId: 'hooks-1',
+      rule: 'duplicate-id',
+      message: 'id is already used in content/questions/hooks/hooks-1.md',
+    }]);
+  });
+
+  it('attaches the file and id to per-question issues', () => {
+    const [issue] = validateQuestionBanks([bank([question({ tags: [] })])]);
+    assert.equal(issue.file, 'content/questions/hooks/hooks-1.md');
+    assert.equal(issue.questionId, 'hooks-1');
+    assert.equal(issue.rule, 'missing-tags');
+  });
+});
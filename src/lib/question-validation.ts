@@ -0,0 +1,202 @@
+import { Question, QuestionBank } from '@/data/types';
+import { BLANK_MARKER, countBlanks } from './answer-formats';
+
+export type ValidationRule =
+  | 'duplicate-id'
+  | 'missing-field'
+  | 'category-mismatch'
+  | 'missing-tags'
+  | 'choice-count'
+  | 'duplicate-option'
+  | 'essay-options'
+  | 'format-fields'
+  | 'step-count'
+  | 'blank-count'
+  | 'missing-output'
+  | 'follow-up-count';
+
+export interface ValidationIssue {
+  file: string; // Content file of the question, relative to the repo root
+  questionId: string;
+  rule: ValidationRule;
+  message: string;
+}
+
+export type QuestionIssue = Omit<ValidationIssue, 'file' | 'questionId'>;
+
+type QuestionCheck = (question: Question, label?: string) => QuestionIssue[];
+
+const checkRequiredFields: QuestionCheck = (question) => {
+  const fields = ['id', 'question', 'answer'] as const;
+  return fields
+    .filter(field => !question[field]?.trim())
+    .map(field => ({ rule: 'missing-field', message: `\`${field}\` is empty` }));
+};
+
+const checkCategory: QuestionCheck = (question, label) =>
+  label === undefined || question.category === label
+    ? []
+    : [{ rule: 'category-mismatch', message: `category '${question.category}' should be '${label}'` }];
+
+const checkTags: QuestionCheck = (question) =>
+  question.tags.some(tag => tag.trim())
+    ? []
+    : [{ rule: 'missing-tags', message: 'has no tags' }];
+
+const isChoiceFormat = (question: Question) =>
+  question.answerFormat === 'multiple-choice' || question.answerFormat === 'multi-select';
+
+const checkOptions: QuestionCheck = (question) => {
+  const options = question.options ?? [];
+
+  if (question.answerFormat === 'essay') {
+    return options.length > 0
+      ? [{ rule: 'essay-options', message: `essay question has ${options.length} options` }]
+      : [];
+  }
+  // Candidate outputs to pick from are optional for predict-output; one of them matches the recording
+  const isOutputChoice = question.answerFormat === 'predict-output' && options.length > 0;
+  if (!isChoiceFormat(question) && !isOutputChoice) return [];
+
+  const issues: QuestionIssue[] = [];
+  const correct = options.filter(o => o.isCorrect).length;
+  if (options.length < 2) {
+    issues.push({ rule: 'choice-count', message: `${question.answerFormat} question has ${options.length} options` });
+  }
+  if ((question.answerFormat === 'multiple-choice' || isOutputChoice) && correct !== 1) {
+    issues.push({ rule: 'choice-count', message: `expected exactly one correct option, found ${correct}` });
+  }
+  if (question.answerFormat === 'multi-select' && correct === 0) {
+    issues.push({ rule: 'choice-count', message: 'expected at least one correct option, found 0' });
+  }
+
+  const seen = new Set<string>();
+  options.forEach(option => {
+    if (seen.has(option.id)) {
+      issues.push({ rule: 'duplicate-option', message: `option id '${option.id}' is used more than once` });
+    }
+    seen.add(option.id);
+  });
+  return issues;
+};
+
+// Each format's own field must be present, and the others' absent
+const checkFormatFields: QuestionCheck = (question) => {
+  const issues: QuestionIssue[] = [];
+  const allowsOptions = isChoiceFormat(question) || question.answerFormat === 'essay' || question.answerFormat === 'predict-output';
+  if (question.options?.length && !allowsOptions) {
+    issues.push({ rule: 'format-fields', message: `${question.answerFormat} question has options` });
+  }
+  if (question.steps && question.answerFormat !== 'ordering') {
+    issues.push({ rule: 'format-fields', message: `\`steps\` is only used by ordering questions` });
+  }
+  if (question.blanks && question.answerFormat !== 'fill-blank') {
+    issues.push({ rule: 'format-fields', message: `\`blanks\` is only used by fill-blank questions` });
+  }
+  if (question.expectedOutput && question.answerFormat !== 'predict-output') {
+    issues.push({ rule: 'format-fields', message: `\`expectedOutput\` is only used by predict-output questions` });
+  }
+  return issues;
+};
+
+const checkSteps: QuestionCheck = (question) => {
+  if (question.answerFormat !== 'ordering') return [];
+
+  const steps = question.steps ?? [];
+  const issues: QuestionIssue[] = [];
+  if (steps.length < 2) {
+    issues.push({ rule: 'step-count', message: `ordering question has ${steps.length} steps` });
+  }
+
+  const seen = new Set<string>();
+  steps.forEach(step => {
+    if (seen.has(step.id)) {
+      issues.push({ rule: 'duplicate-option', message: `step id '${step.id}' is used more than once` });
+    }
+    seen.add(step.id);
+  });
+  return issues;
+};
+
+const checkBlanks: QuestionCheck = (question) => {
+  if (question.answerFormat !== 'fill-blank') return [];
+
+  const blanks = question.blanks ?? [];
+  const markers = countBlanks(question.question);
+  const issues: QuestionIssue[] = [];
+  if (markers === 0 || markers !== blanks.length) {
+    issues.push({ rule: 'blank-count', message: `question has ${markers} ${BLANK_MARKER} markers but ${blanks.length} blanks` });
+  }
+  blanks.forEach((blank, index) => {
+    if (!blank.accepted.some(variant => variant.trim())) {
+      issues.push({ rule: 'blank-count', message: `blank ${index + 1} has no accepted answers` });
+    }
+  });
+  return issues;
+};
+
+// The output itself is checked against a fresh run by `npm run record:outputs -- --check`
+const checkOutput: QuestionCheck = (question) => {
+  if (question.answerFormat !== 'predict-output') return [];
+
+  const issues: QuestionIssue[] = [];
+  if (!question.codeExample?.trim()) {
+    issues.push({ rule: 'missing-field', message: 'predict-output question has no `codeExample` to run' });
+  }
+  if (!question.expectedOutput) {
+    issues.push({ rule: 'missing-output', message: 'no `expectedOutput` recorded; run npm run record:outputs' });
+  }
+  return issues;
+};
+
+const checkFollowUpAnswers: QuestionCheck = (question) => {
+  const answers = question.followUpAnswers?.length ?? 0;
+  const prompts = question.followUp?.length ?? 0;
+  return answers > prompts
+    ? [{ rule: 'follow-up-count', message: `${answers} \`followUpAnswers\` for ${prompts} follow-ups` }]
+    : [];
+};
+
+const questionChecks: QuestionCheck[] = [
+  checkRequiredFields,
+  checkCategory,
+  checkTags,
+  checkOptions,
+  checkFormatFields,
+  checkSteps,
+  checkBlanks,
+  checkOutput,
+  checkFollowUpAnswers,
+];
+
+// Per-question checks; the category check only runs when the expected label is known
+export function validateQuestion(question: Question, label?: string): QuestionIssue[] {
+  return questionChecks.flatMap(check => check(question, label));
+}
+
+// Runs every check over the banks; IDs must be unique across all of them
+export function validateQuestionBanks(banks: QuestionBank[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const firstSeen = new Map<string, string>();
+
+  for (const bank of banks) {
+    for (const question of bank.questions) {
+      const file = `${bank.dir}/${question.id}.md`;
+      const previous = firstSeen.get(question.id);
+      if (previous) {
+        issues.push({
+          file,
+          questionId: question.id,
+          rule: 'duplicate-id',
+          message: `id is already used in ${previous}`,
+        });
+      } else {
+        firstSeen.set(question.id, file);
+      }
+
+      issues.push(...validateQuestion(question, bank.label).map(issue => ({ ...issue, file, questionId: question.id })));
+    }
+  }
+
+  return issues;
+}
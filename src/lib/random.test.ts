@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRandom, parseSeed, shuffle } from './random';
+
+const draw = (seed: number) => {
+  const random = createRandom(seed);
+  return Array.from({ length: 5 }, () => random());
+};
+
+describe('createRandom', () => {
+  it('repeats its sequence for the same seed', () => {
+    assert.deepEqual(draw(2024), draw(2024));
+  });
+
+  it('gives neighbouring seeds different sequences in [0, 1)', () => {
+    assert.notDeepEqual(draw(1), draw(2));
+    for (const value of draw(1)) assert.ok(value >= 0 && value < 1);
+  });
+});
+
+describe('shuffle', () => {
+  it('reorders a copy with the same items', () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = shuffle(items, createRandom(5));
+    assert.deepEqual(items, [1, 2, 3, 4, 5, 6, 7, 8]);
+    assert.deepEqual([...shuffled].sort((a, b) => a - b), items);
+    assert.deepEqual(shuffled, shuffle(items, createRandom(5)));
+  });
+});
+
+describe('parseSeed', () => {
+  it('accepts whole numbers and wraps them to 32 bits', () => {
+    assert.equal(parseSeed(' 42 '), 42);
+    assert.equal(parseSeed('4294967296'), 0);
+  });
+
+  it('rejects anything else', () => {
+    for (const text of ['', '-1', '1.5', 'abc', '12345678901']) assert.equal(parseSeed(text), undefined);
+  });
+});
@@ -0,0 +1,37 @@
+// Seeded randomness, so a session's question order can be reproduced from its seed
+
+// Returns a number in [0, 1), like Math.random
+export type Random = () => number;
+
+// A 32-bit seed, small enough to read out and type back in
+export function createSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+// Mulberry32: fast, and well distributed even for neighbouring seeds
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+// Fisher–Yates on a copy; every order is equally likely, unlike sorting by a random comparator
+export function shuffle<T>(items: readonly T[], random: Random = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Seeds typed by hand: whole numbers only, wrapped to 32 bits
+export function parseSeed(text: string): number | undefined {
+  const trimmed = text.trim();
+  return /^\d{1,10}$/.test(trimmed) ? Number(trimmed) >>> 0 : undefined;
+}
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, Question, QuestionType } from '@/data/types';
+import { createRandom } from './random';
+import { stratifiedSample } from './sampling';
+
+const difficulties: Difficulty[] = ['beginner', 'intermediate', 'senior'];
+const types: QuestionType[] = ['conceptual', 'coding', 'debugging'];
+
+// A lopsided bank: most questions are beginner and conceptual
+const questions: Question[] = Array.from({ length: 40 }, (_, i) => ({
+  id: `q-${i}`,
+  category: 'React Hooks',
+  question: `Question ${i}`,
+  answer: `Answer ${i}`,
+  difficulty: i < 28 ? 'beginner' : difficulties[i % 3],
+  type: i < 28 ? 'conceptual' : types[i % 3],
+  answerFormat: 'essay',
+  tags: ['hooks'],
+  timeEstimate: 2,
+}));
+
+const ids = (picked: Question[]) => picked.map(question => question.id);
+
+const countBy = (picked: Question[], key: (question: Question) => string) =>
+  picked.reduce((counts, question) => counts.set(key(question), (counts.get(key(question)) ?? 0) + 1), new Map<string, number>());
+
+describe('stratifiedSample', () => {
+  it('picks the same questions in the same order for the same seed', () => {
+    assert.deepEqual(ids(stratifiedSample(questions, 10, createRandom(42))), ids(stratifiedSample(questions, 10, createRandom(42))));
+  });
+
+  it('picks a different order for a different seed', () => {
+    assert.notDeepEqual(ids(stratifiedSample(questions, 10, createRandom(42))), ids(stratifiedSample(questions, 10, createRandom(43))));
+  });
+
+  it('fills each stratum evenly, with quotas that sum to the requested count', () => {
+    const picked = stratifiedSample(questions, 9, createRandom(7));
+    assert.equal(new Set(ids(picked)).size, 9);
+
+    for (const key of [(q: Question) => q.difficulty, (q: Question) => q.type]) {
+      const counts = [...countBy(picked, key).values()];
+      assert.equal(counts.reduce((sum, count) => sum + count, 0), 9);
+      assert.deepEqual(counts, [3, 3, 3]);
+    }
+  });
+
+  it('returns the whole bank when asked for more questions than it has', () => {
+    assert.equal(stratifiedSample(questions, 100, createRandom(1)).length, questions.length);
+  });
+});
@@ -0,0 +1,45 @@
+// Stratified sampling: sessions spread across difficulties, question types and subcategories
+// instead of clustering wherever the bank has the most questions
+
+import { Question } from '@/data/types';
+import { Random, shuffle } from './random';
+
+// Most questions have no subcategory. Those add nothing to a pick's cost, so they tie with a subcategory
+// not yet picked and win over one that has been, which keeps a subcategory from repeating early.
+const strata: ((question: Question) => string | undefined)[] = [
+  question => question.difficulty,
+  question => question.type,
+  question => question.subcategory,
+];
+
+// Each pick is the candidate whose difficulty, type and subcategory have been picked least so far.
+// Ties go to the shuffled order, and the picks are shuffled again so the balancing leaves no pattern.
+export function stratifiedSample(questions: Question[], count: number, random: Random = Math.random): Question[] {
+  const candidates = shuffle(questions, random);
+  const counts = strata.map(() => new Map<string, number>());
+  const picked: Question[] = [];
+
+  while (picked.length < count && candidates.length > 0) {
+    let best = 0;
+    let bestCost = Infinity;
+    candidates.forEach((question, i) => {
+      const cost = strata.reduce((sum, key, s) => {
+        const value = key(question);
+        return value === undefined ? sum : sum + (counts[s].get(value) ?? 0);
+      }, 0);
+      if (cost < bestCost) {
+        best = i;
+        bestCost = cost;
+      }
+    });
+
+    const [question] = candidates.splice(best, 1);
+    strata.forEach((key, s) => {
+      const value = key(question);
+      if (value !== undefined) counts[s].set(value, (counts[s].get(value) ?? 0) + 1);
+    });
+    picked.push(question);
+  }
+
+  return shuffle(picked, random);
+}
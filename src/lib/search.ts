@@ -0,0 +1,92 @@
+import { Question } from '@/data/types';
+
+export interface SearchHit {
+  question: Question;
+  score: number;
+}
+
+// Matches in the question text count most, code examples least
+const fieldWeights = {
+  question: 3,
+  tags: 2.5,
+  answer: 1,
+  codeExample: 0.5,
+} as const;
+
+type SearchField = keyof typeof fieldWeights;
+
+type FieldTokens = Record<SearchField, string[]>;
+
+const tokenCache = new WeakMap<Question, FieldTokens>();
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1);
+}
+
+function getFieldTokens(question: Question): FieldTokens {
+  let tokens = tokenCache.get(question);
+  if (!tokens) {
+    tokens = {
+      question: tokenize(question.question),
+      tags: question.tags.flatMap(tokenize),
+      answer: tokenize(question.answer),
+      codeExample: tokenize(question.codeExample ?? ''),
+    };
+    tokenCache.set(question, tokens);
+  }
+  return tokens;
+}
+
+// Dampened term frequency: exact token matches score full, prefix matches half
+function scoreTerm(term: string, tokens: string[]): number {
+  let exact = 0;
+  let prefix = 0;
+  for (const token of tokens) {
+    if (token === term) exact++;
+    else if (token.startsWith(term)) prefix++;
+  }
+  return Math.log1p(exact) + Math.log1p(prefix) * 0.5;
+}
+
+// Ranks questions by weighted term matches; every query term has to match somewhere
+export function rankQuestions(questions: Question[], query: string): SearchHit[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) {
+    return questions.map(question => ({ question, score: 0 }));
+  }
+
+  const phrase = query.trim().toLowerCase();
+  const hits: SearchHit[] = [];
+
+  for (const question of questions) {
+    const tokens = getFieldTokens(question);
+    let score = 0;
+    let allTermsMatched = true;
+
+    for (const term of terms) {
+      let termScore = 0;
+      for (const field of Object.keys(fieldWeights) as SearchField[]) {
+        termScore += scoreTerm(term, tokens[field]) * fieldWeights[field];
+      }
+      if (termScore === 0) {
+        allTermsMatched = false;
+        break;
+      }
+      score += termScore;
+    }
+
+    if (!allTermsMatched) continue;
+
+    // Whole-phrase matches in the question text rank above scattered terms
+    if (terms.length > 1 && question.question.toLowerCase().includes(phrase)) {
+      score *= 1.5;
+    }
+
+    hits.push({ question, score });
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+}
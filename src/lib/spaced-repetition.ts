@@ -0,0 +1,91 @@
+// SM-2 style scheduler: each graded answer moves a question's next review date
+
+export interface ReviewCard {
+  questionId: string;
+  easeFactor: number; // >= 1.3, grows with confident answers
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive passing reviews
+  dueDate: string; // Local date key, YYYY-MM-DD
+  lastReviewed: string; // ISO timestamp
+  lastScore: number; // 0-1
+  sessionId?: string; // Session whose grade set this card
+  previous?: ReviewCard; // The card before that session, so a later grade from it replaces the review
+}
+
+export type ReviewSchedule = Record<string, ReviewCard>;
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const PASSING_QUALITY = 3;
+
+export function toDateKey(date: Date): string {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Maps a 0-1 score onto SM-2's 0-5 response quality
+export function scoreToQuality(score: number): number {
+  return Math.round(Math.min(Math.max(score, 0), 1) * 5);
+}
+
+export function scheduleReview(card: ReviewCard | undefined, questionId: string, score: number, now: Date = new Date()): ReviewCard {
+  const quality = scoreToQuality(score);
+  const previous = card ?? {
+    questionId,
+    easeFactor: DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+  };
+
+  let repetitions: number;
+  let interval: number;
+
+  if (quality < PASSING_QUALITY) {
+    // Failed recall starts the sequence over
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = previous.repetitions + 1;
+    if (repetitions === 1) {
+      interval = 1;
+    } else if (repetitions === 2) {
+      interval = 6;
+    } else {
+      interval = Math.round(previous.interval * previous.easeFactor);
+    }
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE,
+    previous.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    questionId,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    dueDate: toDateKey(addDays(now, interval)),
+    lastReviewed: now.toISOString(),
+    lastScore: score,
+  };
+}
+
+export function isDue(card: ReviewCard, now: Date = new Date()): boolean {
+  return card.dueDate <= toDateKey(now);
+}
+
+// Due question IDs, most overdue first
+export function getDueQuestionIds(schedule: ReviewSchedule, now: Date = new Date()): string[] {
+  return Object.values(schedule)
+    .filter(card => isDue(card, now))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.easeFactor - b.easeFactor)
+    .map(card => card.questionId);
+}
@@ -0,0 +1,83 @@
+// Weak-spot drills: questions on the lowest-scoring tags and subcategories
+
+import { Question } from '@/data/types';
+import { AnswerRecord, GroupScore, getWeakestGroups } from './analytics';
+
+export type WeakTopicKind = 'tag' | 'subcategory';
+
+export interface WeakTopic extends GroupScore {
+  kind: WeakTopicKind;
+}
+
+export interface DrillPick {
+  question: Question;
+  topic: WeakTopic;
+  lastScore?: number; // 0-1; absent when the question hasn't been answered yet
+  reason: string;
+}
+
+const WEAK_TOPIC_SCORE = 75; // Topics averaging at least this (0-100) aren't drilled
+const WELL_ANSWERED_SCORE = 0.75; // Questions last scored at least this are left out
+
+// Weakest first, tags and subcategories ranked together
+export function findWeakTopics(records: AnswerRecord[], limit = 5): WeakTopic[] {
+  const tags = getWeakestGroups(records, 'tags', { limit }).map(group => ({ ...group, kind: 'tag' as const }));
+  const subcategories = getWeakestGroups(records, 'subcategory', { limit })
+    .map(group => ({ ...group, kind: 'subcategory' as const }));
+
+  return [...tags, ...subcategories]
+    .filter(topic => topic.averageScore < WEAK_TOPIC_SCORE)
+    .sort((a, b) => a.averageScore - b.averageScore || b.answers - a.answers)
+    .slice(0, limit);
+}
+
+function coversTopic(question: Question, topic: WeakTopic): boolean {
+  return topic.kind === 'tag' ? question.tags.includes(topic.key) : question.subcategory === topic.key;
+}
+
+function explainPick(topic: WeakTopic, lastScore: number | undefined): string {
+  const kind = topic.kind === 'tag' ? 'Tag' : 'Subcategory';
+  const history = lastScore === undefined
+    ? 'you haven\'t answered this question yet'
+    : `you scored ${Math.round(lastScore * 100)}% on it last time`;
+  return `${kind} "${topic.key}" averages ${topic.averageScore}% over ${topic.answers} answers; ${history}.`;
+}
+
+// Takes questions from each weak topic in turn, weakest topic first, so a single topic can't
+// fill the session. Within a topic, poorly answered questions come before unseen ones.
+export function planWeakSpotDrill(
+  records: AnswerRecord[],
+  questions: Question[],
+  questionCount: number,
+  topics: WeakTopic[] = findWeakTopics(records)
+): DrillPick[] {
+  // Records are oldest first, so the last write is the latest score
+  const lastScores = new Map<string, number>();
+  records.forEach(record => lastScores.set(record.questionId, record.score));
+
+  const rank = (question: Question) => lastScores.get(question.id) ?? WELL_ANSWERED_SCORE;
+  const queues = topics.map(topic =>
+    questions
+      .filter(q => coversTopic(q, topic) && (lastScores.get(q.id) ?? 0) < WELL_ANSWERED_SCORE)
+      .sort((a, b) => rank(a) - rank(b))
+  );
+
+  const picks: DrillPick[] = [];
+  const chosen = new Set<string>();
+  let added = true;
+
+  while (picks.length < questionCount && added) {
+    added = false;
+    for (let i = 0; i < topics.length && picks.length < questionCount; i++) {
+      const question = queues[i].find(q => !chosen.has(q.id));
+      if (!question) continue;
+
+      const lastScore = lastScores.get(question.id);
+      chosen.add(question.id);
+      picks.push({ question, topic: topics[i], lastScore, reason: explainPick(topics[i], lastScore) });
+      added = true;
+    }
+  }
+
+  return picks;
+}
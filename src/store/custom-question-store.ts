@@ -0,0 +1,91 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Question } from '@/data/types';
+
+export interface CustomCategory {
+  id: string;
+  name: string; // Also the `category` string its questions use
+  description: string;
+  icon: string; // Emoji
+  color: string; // Hex colour
+}
+
+interface CustomQuestionStore {
+  questions: Question[]; // Imported or authored; built-in IDs are never reused
+  categories: CustomCategory[]; // Shown after the built-in categories
+  
+  addQuestions: (questions: Question[]) => void;
+  saveQuestion: (question: Question, previousId?: string) => void;
+  removeQuestion: (id: string) => void;
+  clearQuestions: () => void;
+  createCategory: (fields: Omit<CustomCategory, 'id'>) => CustomCategory;
+  updateCategory: (id: string, changes: Partial<Omit<CustomCategory, 'id'>>) => void;
+  deleteCategory: (id: string) => void;
+}
+
+const generateCategoryId = () => `category-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+
+export const useCustomQuestionStore = create<CustomQuestionStore>()(
+  persist(
+    (set, get) => ({
+      questions: [],
+      categories: [],
+      
+      addQuestions: (questions) => {
+        const ids = new Set(questions.map(q => q.id));
+        set({ questions: [...get().questions.filter(q => !ids.has(q.id)), ...questions] });
+      },
+      
+      // Updates in place; a changed ID replaces the entry stored under `previousId`
+      saveQuestion: (question, previousId = question.id) => {
+        const questions = get().questions;
+        const index = questions.findIndex(q => q.id === previousId);
+        if (index === -1) {
+          set({ questions: [...questions.filter(q => q.id !== question.id), question] });
+        } else {
+          set({
+            questions: questions
+              .map((q, i) => (i === index ? question : q))
+              .filter((q, i) => i === index || q.id !== question.id),
+          });
+        }
+      },
+      
+      removeQuestion: (id) => {
+        set({ questions: get().questions.filter(q => q.id !== id) });
+      },
+      
+      clearQuestions: () => {
+        set({ questions: [] });
+      },
+      
+      createCategory: (fields) => {
+        const category: CustomCategory = { ...fields, id: generateCategoryId(), name: fields.name.trim() };
+        set({ categories: [...get().categories, category] });
+        return category;
+      },
+      
+      // Renaming carries the category's questions over to the new name
+      updateCategory: (id, changes) => {
+        const previous = get().categories.find(c => c.id === id);
+        if (!previous) return;
+        
+        const name = changes.name?.trim() || previous.name;
+        set({
+          categories: get().categories.map(c => (c.id === id ? { ...c, ...changes, name } : c)),
+          questions: name === previous.name
+            ? get().questions
+            : get().questions.map(q => (q.category === previous.name ? { ...q, category: name } : q)),
+        });
+      },
+      
+      // Questions keep their `category` text and stay in the browser
+      deleteCategory: (id) => {
+        set({ categories: get().categories.filter(c => c.id !== id) });
+      },
+    }),
+    {
+      name: 'custom-questions-storage',
+    }
+  )
+);
@@ -0,0 +1,70 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { SharedPlaylist } from '@/lib/playlist-share';
+
+export interface Playlist {
+  id: string;
+  name: string;
+  questionIds: string[]; // Ordered; sessions ask them in this order
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface PlaylistStore {
+  playlists: Playlist[];
+  
+  createPlaylist: (name: string, questionIds: string[]) => Playlist;
+  updatePlaylist: (id: string, changes: Partial<Pick<Playlist, 'name' | 'questionIds'>>) => void;
+  deletePlaylist: (id: string) => void;
+  importPlaylist: (shared: SharedPlaylist) => Playlist;
+}
+
+const generateId = () => `playlist-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+
+export const usePlaylistStore = create<PlaylistStore>()(
+  persist(
+    (set, get) => ({
+      playlists: [],
+      
+      createPlaylist: (name, questionIds) => {
+        const now = new Date().toISOString();
+        const playlist: Playlist = {
+          id: generateId(),
+          name: name.trim() || 'Untitled playlist',
+          questionIds: [...new Set(questionIds)],
+          createdAt: now,
+          updatedAt: now,
+        };
+        
+        set({ playlists: [playlist, ...get().playlists] });
+        return playlist;
+      },
+      
+      updatePlaylist: (id, changes) => {
+        set({
+          playlists: get().playlists.map(p =>
+            p.id === id
+              ? {
+                  ...p,
+                  ...changes,
+                  questionIds: changes.questionIds ? [...new Set(changes.questionIds)] : p.questionIds,
+                  updatedAt: new Date().toISOString(),
+                }
+              : p
+          ),
+        });
+      },
+      
+      deletePlaylist: (id) => {
+        set({ playlists: get().playlists.filter(p => p.id !== id) });
+      },
+      
+      importPlaylist: (shared) => {
+        return get().createPlaylist(shared.name, shared.questionIds);
+      },
+    }),
+    {
+      name: 'interview-playlists-storage',
+    }
+  )
+);
@@ -1,20 +1,75 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { Question, AnswerFormat } from '@/data/types';
-import { getRandomQuestions, getQuestionsByCategory, allQuestions } from '@/data/questions';
+import { Question, AnswerFormat, Difficulty, GraderEngine, RubricCriterionResult } from '@/data/types';
+import { getQuestionsByCategory, getQuestionById, getAllQuestions } from '@/data/questions';
+import { ReviewCard, ReviewSchedule, getDueQuestionIds, scheduleReview } from '@/lib/spaced-repetition';
+import { nextDifficulty, pickQuestionNear } from '@/lib/adaptive-difficulty';
+import { collectAnswers, isResultGraded } from '@/lib/analytics';
+import { WeakTopic, findWeakTopics, planWeakSpotDrill } from '@/lib/weak-spots';
+import { getMockTimeLimit } from '@/lib/mock-interview';
+import { createRandom, createSeed, shuffle } from '@/lib/random';
+import { stratifiedSample } from '@/lib/sampling';
+
+// Coding questions with tests are scored by their pass ratio, and structured formats
+// against the question's answer key, instead of by a grader engine
+export type AutoGradeSource = GraderEngine | 'tests' | 'answer-key';
+
+// Question facts at answer time, so analytics outlive edits and removed custom questions
+export type QuestionSnapshot = Pick<Question, 'category' | 'subcategory' | 'difficulty' | 'type' | 'tags' | 'timeEstimate'>;
 
 export interface SessionResult {
   questionId: string;
   question: string;
   userAnswer: string;
   correctAnswer: string;
-  score: number;
+  score: number; // Effective score: self-grade when given, otherwise the automatic grade
   feedback: string;
-  timeTaken: number;
+  strengths?: string[];
+  improvements?: string[];
+  breakdown?: RubricCriterionResult[]; // Rubric criteria hit or missed
+  autoScore?: number; // Score returned by /api/grade
+  gradedBy?: AutoGradeSource; // Engine that produced autoScore
+  selfScore?: number; // Self-grade override
+  timeTaken: number; // in seconds
+  snapshot?: QuestionSnapshot; // Absent on results recorded before snapshots were kept
+  followUps?: FollowUpResult[]; // Graded separately; they don't change `score`
+  note?: string; // The user's own notes from the results review
+}
+
+// Grade fields shared by answers and their follow-ups
+export type GradedFields = Pick<
+  SessionResult,
+  'score' | 'feedback' | 'strengths' | 'improvements' | 'breakdown' | 'autoScore' | 'gradedBy' | 'selfScore'
+>;
+
+export interface FollowUpResult extends GradedFields {
+  index: number; // Position in the question's followUp list
+  prompt: string;
+  userAnswer: string;
+  timeTaken: number; // in seconds
+}
+
+export interface GradeDetails {
+  source: 'auto' | 'self';
+  engine?: AutoGradeSource;
+  strengths?: string[];
+  improvements?: string[];
+  breakdown?: RubricCriterionResult[];
+}
+
+// Mock interviews time each question separately and don't allow going back
+export type SessionMode = 'practice' | 'review' | 'drill' | 'mock';
+
+export type DifficultyFilter = 'all' | Difficulty;
+
+export interface AdaptiveState {
+  questionCount: number; // Target length; questions are picked one at a time
+  pool: string[]; // Candidate question IDs not yet asked
 }
 
 export interface PracticeSession {
   id: string;
+  mode?: SessionMode;
   startTime: Date;
   endTime?: Date;
   category: string;
@@ -25,23 +80,55 @@ export interface PracticeSession {
   totalScore: number;
   timeLimit: number; // in minutes
   isComplete: boolean;
+  difficultyFilter?: DifficultyFilter;
+  formatFilter?: QuestionFormatFilter;
+  seed?: number; // Drives every random pick, so the session can be replayed; absent on drills and hand-picked sessions
+  adaptive?: AdaptiveState;
+  pickReasons?: Record<string, string>; // Drill sessions: why each question was chosen
+  timeUsed?: number; // ms of session time counted before resumedAt
+  resumedAt?: number; // Wall-clock ms when the clock last started; absent while paused
+}
+
+// Unsaved work on the current question, persisted so a reload doesn't lose it
+export interface AnswerDraft {
+  sessionId: string;
+  questionId: string;
+  answer: string;
+  selectedOption: string | null;
+  questionTimeUsed: number; // ms spent on the question so far
 }
 
 type QuestionFormatFilter = 'all' | AnswerFormat;
 
+export interface StartSessionOptions {
+  mode?: SessionMode;
+  difficultyFilter?: DifficultyFilter;
+  adaptive?: boolean; // Start at difficultyFilter (or intermediate) and move with each score; not for drills or mocks
+  seed?: number; // Replays a session; a new seed is drawn when absent
+}
+
 interface PracticeStore {
   // Session state
   currentSession: PracticeSession | null;
   sessionHistory: PracticeSession[];
+  reviewSchedule: ReviewSchedule; // Kept apart from sessionHistory so it outlives the history cap
+  answerDraft: AnswerDraft | null;
   
   // Actions
-  startSession: (categoryId: string, categoryName: string, questionCount: number, timeLimit: number, formatFilter?: QuestionFormatFilter) => void;
+  startSession: (categoryId: string, categoryName: string, questionCount: number, timeLimit: number, formatFilter?: QuestionFormatFilter, options?: StartSessionOptions) => void;
+  startSessionFromQuestions: (questionIds: string[], sessionName: string, timeLimit: number) => void;
+  replaySession: (session: PracticeSession) => void;
   submitAnswer: (answer: string, timeTaken: number) => void;
-  gradeAnswer: (questionId: string, score: number, feedback: string) => void;
+  gradeAnswer: (questionId: string, score: number, feedback: string, details?: GradeDetails) => void;
+  submitFollowUp: (questionId: string, index: number, answer: string, timeTaken: number) => void;
+  gradeFollowUp: (questionId: string, index: number, score: number, feedback: string, details?: GradeDetails) => void;
+  setResultNote: (questionId: string, note: string) => void;
   nextQuestion: () => void;
   previousQuestion: () => void;
   endSession: () => void;
   resetSession: () => void;
+  saveProgress: (draft: Omit<AnswerDraft, 'sessionId'> | null) => void;
+  resumeSession: () => void;
   
   // Stats
   getStats: () => {
@@ -49,19 +136,96 @@ interface PracticeStore {
     averageScore: number;
     totalQuestionsPracticed: number;
     categoryBreakdown: Record<string, { sessions: number; avgScore: number }>;
+    weakTopics: WeakTopic[]; // Lowest-scoring tags and subcategories, weakest first
+  };
+}
+
+// Adaptive sessions only know their target length, not every question upfront
+export function getSessionLength(session: PracticeSession): number {
+  return session.adaptive?.questionCount ?? session.questions.length;
+}
+
+// Time limit for hand-picked sessions: the questions' own estimates, at least five minutes
+export function estimateTimeLimit(questions: Question[]): number {
+  return Math.max(5, questions.reduce((sum, q) => sum + q.timeEstimate, 0));
+}
+
+// Remaining session time in seconds, from the wall clock rather than a ticking counter
+export function getTimeRemaining(session: PracticeSession, now = Date.now()): number {
+  const running = session.resumedAt !== undefined ? Math.max(0, now - session.resumedAt) : 0;
+  const remaining = session.timeLimit * 60 * 1000 - (session.timeUsed ?? 0) - running;
+  return Math.max(0, Math.ceil(remaining / 1000));
+}
+
+// Reloaded sessions come back paused and wait for the user to resume them
+export function isSessionPaused(session: PracticeSession): boolean {
+  return !session.isComplete && session.resumedAt === undefined;
+}
+
+function startClock(): Pick<PracticeSession, 'timeUsed' | 'resumedAt'> {
+  return { timeUsed: 0, resumedAt: Date.now() };
+}
+
+// Folds the running time into timeUsed so the persisted copy is up to date
+function checkpointClock(session: PracticeSession, now = Date.now()): PracticeSession {
+  if (session.resumedAt === undefined) return session;
+  return { ...session, timeUsed: (session.timeUsed ?? 0) + now - session.resumedAt, resumedAt: now };
+}
+
+// Grades that arrive after the session ended (automatic grades, re-grades and self-grades in the
+// review) replace the review that session scheduled instead of counting as another one
+function scheduleResult(schedule: ReviewSchedule, sessionId: string, result: SessionResult, now: Date): ReviewCard {
+  const card = schedule[result.questionId];
+  const base = card?.sessionId === sessionId ? card.previous : card;
+  return {
+    ...scheduleReview(base, result.questionId, result.score, now),
+    sessionId,
+    previous: base && { ...base, previous: undefined },
   };
 }
 
+// Merges a grade into a result; a later automatic grade keeps an earlier self-grade override
+function applyGrade<T extends GradedFields>(result: T, score: number, feedback: string, details?: GradeDetails): T {
+  if (details?.source === 'auto') {
+    return {
+      ...result,
+      score: result.selfScore ?? score,
+      feedback,
+      strengths: details.strengths,
+      improvements: details.improvements,
+      breakdown: details.breakdown,
+      autoScore: score,
+      gradedBy: details.engine,
+    };
+  }
+  
+  if (details?.source === 'self') {
+    return {
+      ...result,
+      score,
+      feedback: result.autoScore !== undefined ? result.feedback : feedback,
+      selfScore: score,
+    };
+  }
+  
+  return { ...result, score, feedback };
+}
+
 export const usePracticeStore = create<PracticeStore>()(
   persist(
     (set, get) => ({
       currentSession: null,
       sessionHistory: [],
+      reviewSchedule: {},
+      answerDraft: null,
       
-      startSession: (categoryId, categoryName, questionCount, timeLimit, formatFilter = 'all') => {
+      startSession: (categoryId, categoryName, questionCount, timeLimit, formatFilter = 'all', options = {}) => {
+        const { mode = 'practice', difficultyFilter = 'all', adaptive = false, seed = createSeed() } = options;
+        const random = createRandom(seed);
+        
         // Get base questions
         let sourceQuestions = categoryId === 'all' 
-          ? allQuestions 
+          ? getAllQuestions() 
           : getQuestionsByCategory(categoryId);
         
         // Filter by format if specified
@@ -69,12 +233,84 @@ export const usePracticeStore = create<PracticeStore>()(
           sourceQuestions = sourceQuestions.filter(q => q.answerFormat === formatFilter);
         }
         
-        // Shuffle and take the requested count
-        const shuffled = [...sourceQuestions].sort(() => Math.random() - 0.5);
-        const questions = shuffled.slice(0, questionCount);
+        if (adaptive && mode !== 'drill' && mode !== 'mock') {
+          // The difficulty filter only sets the starting level
+          const firstQuestion = pickQuestionNear(sourceQuestions, difficultyFilter === 'all' ? 'intermediate' : difficultyFilter, random);
+          if (!firstQuestion) return;
+          
+          set({
+            currentSession: {
+              id: `session-${Date.now()}`,
+              mode,
+              startTime: new Date(),
+              category: categoryId,
+              categoryName,
+              questions: [firstQuestion],
+              currentIndex: 0,
+              results: [],
+              totalScore: 0,
+              timeLimit,
+              isComplete: false,
+              ...startClock(),
+              difficultyFilter,
+              formatFilter,
+              seed,
+              adaptive: {
+                questionCount: Math.min(questionCount, sourceQuestions.length),
+                pool: sourceQuestions.filter(q => q.id !== firstQuestion.id).map(q => q.id),
+              },
+            },
+          });
+          return;
+        }
+        
+        if (difficultyFilter !== 'all') {
+          sourceQuestions = sourceQuestions.filter(q => q.difficulty === difficultyFilter);
+        }
+        
+        // Drills ask questions on the weakest topics, in the order they were picked
+        if (mode === 'drill') {
+          const records = collectAnswers(get().sessionHistory, getQuestionById);
+          const picks = planWeakSpotDrill(records, sourceQuestions, questionCount);
+          if (picks.length === 0) return;
+          
+          set({
+            currentSession: {
+              id: `session-${Date.now()}`,
+              mode,
+              startTime: new Date(),
+              category: categoryId,
+              categoryName,
+              questions: picks.map(pick => pick.question),
+              currentIndex: 0,
+              results: [],
+              totalScore: 0,
+              timeLimit,
+              isComplete: false,
+              ...startClock(),
+              difficultyFilter,
+              pickReasons: Object.fromEntries(picks.map(pick => [pick.question.id, pick.reason])),
+            },
+          });
+          return;
+        }
+        
+        let questions: Question[];
+        if (mode === 'review') {
+          // Review sessions draw due questions first, most overdue first
+          const dueIds = getDueQuestionIds(get().reviewSchedule);
+          const rank = (q: Question) => {
+            const index = dueIds.indexOf(q.id);
+            return index === -1 ? dueIds.length : index;
+          };
+          questions = shuffle(sourceQuestions, random).sort((a, b) => rank(a) - rank(b)).slice(0, questionCount);
+        } else {
+          questions = stratifiedSample(sourceQuestions, questionCount, random);
+        }
         
         const session: PracticeSession = {
           id: `session-${Date.now()}`,
+          mode,
           startTime: new Date(),
           category: categoryId,
           categoryName,
@@ -82,13 +318,56 @@ export const usePracticeStore = create<PracticeStore>()(
           currentIndex: 0,
           results: [],
           totalScore: 0,
-          timeLimit,
+          timeLimit: mode === 'mock' ? getMockTimeLimit(questions) : timeLimit,
           isComplete: false,
+          ...startClock(),
+          difficultyFilter,
+          formatFilter,
+          seed,
         };
         
         set({ currentSession: session });
       },
       
+      startSessionFromQuestions: (questionIds, sessionName, timeLimit) => {
+        // Keep the given order; unknown IDs are skipped
+        const questions = questionIds
+          .map(id => getQuestionById(id))
+          .filter((q): q is Question => !!q);
+        if (questions.length === 0) return;
+        
+        set({
+          currentSession: {
+            id: `session-${Date.now()}`,
+            mode: 'practice',
+            startTime: new Date(),
+            category: 'custom',
+            categoryName: sessionName,
+            questions,
+            currentIndex: 0,
+            results: [],
+            totalScore: 0,
+            timeLimit,
+            isComplete: false,
+            ...startClock(),
+          },
+        });
+      },
+      
+      // Same settings and seed, so the same questions come up while the bank is unchanged. Review
+      // sessions also depend on what is due, and adaptive ones on how each answer scores.
+      replaySession: (session) => {
+        if (session.seed === undefined) return;
+        get().startSession(
+          session.category,
+          session.categoryName,
+          getSessionLength(session),
+          session.timeLimit,
+          session.formatFilter,
+          { mode: session.mode, difficultyFilter: session.difficultyFilter, adaptive: !!session.adaptive, seed: session.seed }
+        );
+      },
+      
       submitAnswer: (answer, timeTaken) => {
         const { currentSession } = get();
         if (!currentSession) return;
@@ -103,6 +382,14 @@ export const usePracticeStore = create<PracticeStore>()(
           score: 0, // Will be set by grading
           feedback: '',
           timeTaken,
+          snapshot: {
+            category: currentQuestion.category,
+            subcategory: currentQuestion.subcategory,
+            difficulty: currentQuestion.difficulty,
+            type: currentQuestion.type,
+            tags: currentQuestion.tags,
+            timeEstimate: currentQuestion.timeEstimate,
+          },
         };
         
         set({
@@ -110,50 +397,150 @@ export const usePracticeStore = create<PracticeStore>()(
             ...currentSession,
             results: [...currentSession.results, result],
           },
+          answerDraft: null,
         });
       },
       
-      gradeAnswer: (questionId, score, feedback) => {
-        const { currentSession } = get();
+      gradeAnswer: (questionId, score, feedback, details) => {
+        const { currentSession, sessionHistory, reviewSchedule } = get();
         if (!currentSession) return;
         
         const updatedResults = currentSession.results.map(r =>
-          r.questionId === questionId
-            ? { ...r, score, feedback }
-            : r
+          r.questionId === questionId ? applyGrade(r, score, feedback, details) : r
         );
         
         const totalScore = updatedResults.reduce((sum, r) => sum + r.score, 0) / updatedResults.length * 100;
         
+        const updatedSession: PracticeSession = {
+          ...currentSession,
+          results: updatedResults,
+          totalScore: Math.round(totalScore),
+        };
+        
+        // Automatic grades can arrive after the session has been archived, and its review
+        // can re-grade answers; endSession has already scheduled the rest
+        const result = updatedResults.find(r => r.questionId === questionId);
+        const rescheduled = currentSession.isComplete && result && isResultGraded(result)
+          ? { ...reviewSchedule, [questionId]: scheduleResult(reviewSchedule, currentSession.id, result, new Date()) }
+          : reviewSchedule;
+        
+        set({
+          currentSession: updatedSession,
+          reviewSchedule: rescheduled,
+          sessionHistory: currentSession.isComplete
+            ? sessionHistory.map(s => (s.id === updatedSession.id ? updatedSession : s))
+            : sessionHistory,
+        });
+      },
+      
+      submitFollowUp: (questionId, index, answer, timeTaken) => {
+        const { currentSession } = get();
+        if (!currentSession) return;
+        
+        const question = currentSession.questions.find(q => q.id === questionId);
+        const prompt = question?.followUp?.[index];
+        if (prompt === undefined) return;
+        
+        const followUp: FollowUpResult = { index, prompt, userAnswer: answer, score: 0, feedback: '', timeTaken };
         set({
           currentSession: {
             ...currentSession,
-            results: updatedResults,
-            totalScore: Math.round(totalScore),
+            results: currentSession.results.map(r =>
+              r.questionId === questionId
+                ? { ...r, followUps: [...(r.followUps ?? []).filter(f => f.index !== index), followUp] }
+                : r
+            ),
           },
         });
       },
       
+      gradeFollowUp: (questionId, index, score, feedback, details) => {
+        const { currentSession, sessionHistory } = get();
+        if (!currentSession) return;
+        
+        const updatedSession: PracticeSession = {
+          ...currentSession,
+          results: currentSession.results.map(r =>
+            r.questionId === questionId
+              ? { ...r, followUps: r.followUps?.map(f => (f.index === index ? applyGrade(f, score, feedback, details) : f)) }
+              : r
+          ),
+        };
+        
+        set({
+          currentSession: updatedSession,
+          sessionHistory: currentSession.isComplete
+            ? sessionHistory.map(s => (s.id === updatedSession.id ? updatedSession : s))
+            : sessionHistory,
+        });
+      },
+      
+      setResultNote: (questionId, note) => {
+        const { currentSession, sessionHistory } = get();
+        if (!currentSession) return;
+        
+        const updatedSession: PracticeSession = {
+          ...currentSession,
+          results: currentSession.results.map(r => (r.questionId === questionId ? { ...r, note } : r)),
+        };
+        
+        set({
+          currentSession: updatedSession,
+          sessionHistory: currentSession.isComplete
+            ? sessionHistory.map(s => (s.id === updatedSession.id ? updatedSession : s))
+            : sessionHistory,
+        });
+      },
+      
       nextQuestion: () => {
         const { currentSession } = get();
         if (!currentSession) return;
         
         const nextIndex = currentSession.currentIndex + 1;
-        const isComplete = nextIndex >= currentSession.questions.length;
+        const { adaptive } = currentSession;
+        
+        // Adaptive sessions pick the next question from the score of the current one
+        if (adaptive && nextIndex >= currentSession.questions.length && nextIndex < adaptive.questionCount) {
+          const current = currentSession.questions[currentSession.currentIndex];
+          const result = currentSession.results.find(r => r.questionId === current.id);
+          const target = nextDifficulty(current.difficulty, result && isResultGraded(result) ? result.score : undefined);
+          const pool = adaptive.pool
+            .map(id => getQuestionById(id))
+            .filter((q): q is Question => !!q);
+          // Seeded per position, so a replay that scores the same picks the same questions
+          const random = currentSession.seed !== undefined ? createRandom(currentSession.seed + nextIndex) : Math.random;
+          const next = pickQuestionNear(pool, target, random);
+          
+          if (next) {
+            set({
+              currentSession: {
+                ...currentSession,
+                questions: [...currentSession.questions, next],
+                currentIndex: nextIndex,
+                adaptive: { ...adaptive, pool: adaptive.pool.filter(id => id !== next.id) },
+              },
+            });
+            return;
+          }
+        }
+        
+        // Past the last question, including an adaptive pool that ran dry: archive and schedule as usual
+        if (nextIndex >= currentSession.questions.length) {
+          get().endSession();
+          return;
+        }
         
         set({
           currentSession: {
             ...currentSession,
-            currentIndex: isComplete ? currentSession.currentIndex : nextIndex,
-            isComplete,
-            endTime: isComplete ? new Date() : undefined,
+            currentIndex: nextIndex,
           },
         });
       },
       
       previousQuestion: () => {
         const { currentSession } = get();
-        if (!currentSession || currentSession.currentIndex === 0) return;
+        if (!currentSession || currentSession.currentIndex === 0 || currentSession.mode === 'mock') return;
         
         set({
           currentSession: {
@@ -164,23 +551,51 @@ export const usePracticeStore = create<PracticeStore>()(
       },
       
       endSession: () => {
-        const { currentSession, sessionHistory } = get();
-        if (!currentSession) return;
+        const { currentSession, sessionHistory, reviewSchedule } = get();
+        if (!currentSession || currentSession.isComplete) return;
         
         const completedSession: PracticeSession = {
-          ...currentSession,
+          ...checkpointClock(currentSession),
           endTime: new Date(),
           isComplete: true,
+          resumedAt: undefined,
         };
         
+        // Reschedule every graded answer for spaced repetition
+        const now = new Date();
+        const updatedSchedule = { ...reviewSchedule };
+        completedSession.results.filter(isResultGraded).forEach(r => {
+          updatedSchedule[r.questionId] = scheduleResult(updatedSchedule, completedSession.id, r, now);
+        });
+        
+        // Keep the completed session around so the results screen can show it
         set({
-          currentSession: null,
-          sessionHistory: [completedSession, ...sessionHistory].slice(0, 50), // Keep last 50 sessions
+          reviewSchedule: updatedSchedule,
+          currentSession: completedSession,
+          sessionHistory: [completedSession, ...sessionHistory.filter(s => s.id !== completedSession.id)].slice(0, 50), // Keep last 50 sessions
+          answerDraft: null,
         });
       },
       
       resetSession: () => {
-        set({ currentSession: null });
+        set({ currentSession: null, answerDraft: null });
+      },
+      
+      saveProgress: (draft) => {
+        const { currentSession } = get();
+        if (!currentSession || currentSession.isComplete) return;
+        
+        set({
+          currentSession: checkpointClock(currentSession),
+          answerDraft: draft && { ...draft, sessionId: currentSession.id },
+        });
+      },
+      
+      resumeSession: () => {
+        const { currentSession } = get();
+        if (!currentSession || !isSessionPaused(currentSession)) return;
+        
+        set({ currentSession: { ...currentSession, resumedAt: Date.now() } });
       },
       
       getStats: () => {
@@ -192,6 +607,7 @@ export const usePracticeStore = create<PracticeStore>()(
             averageScore: 0,
             totalQuestionsPracticed: 0,
             categoryBreakdown: {},
+            weakTopics: [],
           };
         }
         
@@ -226,12 +642,22 @@ export const usePracticeStore = create<PracticeStore>()(
           averageScore: Math.round(averageScore),
           totalQuestionsPracticed,
           categoryBreakdown,
+          weakTopics: findWeakTopics(collectAnswers(sessionHistory, getQuestionById)),
         };
       },
     }),
     {
       name: 'interview-practice-storage',
-      partialize: (state) => ({ sessionHistory: state.sessionHistory }),
+      // An unfinished session is saved paused at its last checkpoint; finished ones are in the history
+      partialize: (state) => {
+        const session = state.currentSession && !state.currentSession.isComplete ? state.currentSession : null;
+        return {
+          sessionHistory: state.sessionHistory,
+          reviewSchedule: state.reviewSchedule,
+          currentSession: session && { ...session, resumedAt: undefined },
+          answerDraft: session && state.answerDraft?.sessionId === session.id ? state.answerDraft : null,
+        };
+      },
     }
   )
 );